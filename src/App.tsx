@@ -1,24 +1,38 @@
 import { useState } from "react";
 import { PodcastForm } from "@/components/podcast-form";
+import { BatchUpload } from "@/components/batch-upload";
 import { EpisodesList } from "@/components/episodes-list";
+import { JobsTray } from "@/components/jobs-tray";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { SignIn } from "@/components/sign-in";
+import { EpisodeDetail } from "@/components/episode-detail";
+import { PublishingCalendar } from "@/components/publishing-calendar";
+import { PodcastFeed } from "@/components/podcast-feed";
+import { Link } from "@/components/link";
+import { Button } from "@/components/ui/button";
 import { Toaster } from "@/components/ui/toaster";
-import { FileText, List } from "lucide-react";
-
-// Define the interface for script links
-interface ScriptLinks {
-  episode_interview_script_1: string | null;
-  episode_interview_script_2: string | null;
-  episode_interview_script_3: string | null;
-  episode_interview_script_4: string | null;
-  episode_interview_full_script: string | null;
-  episode_interview_file: string | null;
-  episode_interview_script_status?: string;
-}
+import { CalendarDays, FileText, List, Loader2, LogOut, Rss, Settings } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useRoute } from "@/hooks/use-route";
+import { ROLE_LABELS } from "@/lib/auth";
+import { config } from "@/lib/config";
+import { CALENDAR_PATH, DASHBOARD_PATH, FEED_PATH } from "@/lib/routes";
+import type { ScriptLinks } from "@/lib/episodes";
 
 function App() {
+  // Signed-in user; everything below is only shown once someone has signed in
+  const { user, isLoading: isAuthLoading, signOut } = useAuth();
+  
+  // Current page; deep links work before sign-in since the URL is kept while the sign-in screen shows
+  const { route } = useRoute();
+  
   // State to store selected script links
   const [selectedScriptLinks, setSelectedScriptLinks] = useState<ScriptLinks | null>(null);
   const [selectedEpisodeName, setSelectedEpisodeName] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  
+  // Whether the form section uploads one episode or a batch
+  const [uploadMode, setUploadMode] = useState<"single" | "batch">("single");
 
   // Handler for when a record is selected in the episodes list
   const handleRecordSelect = (
@@ -35,26 +49,109 @@ function App() {
     }
   };
 
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <>
+        <SignIn />
+        <Toaster />
+      </>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
       <header className="bg-white dark:bg-gray-800 shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex items-center">
-            <img 
-              src="https://www.dropbox.com/scl/fi/t23dfvn2vuvdu6qzp2hpe/MEP-logo-icon-1.png?rlkey=poppf0so6zcu9j1dwfjkm4ln9&st=til8cctg&dl=1" 
-              alt="Marketing Execution Podcast Logo" 
-              className="h-10 w-10 mr-3" 
-            />
-            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-              Marketing Execution Podcast
-            </h1>
+            <Link to={DASHBOARD_PATH} className="flex items-center">
+              <img 
+                src="https://www.dropbox.com/scl/fi/t23dfvn2vuvdu6qzp2hpe/MEP-logo-icon-1.png?rlkey=poppf0so6zcu9j1dwfjkm4ln9&st=til8cctg&dl=1" 
+                alt="Marketing Execution Podcast Logo" 
+                className="h-10 w-10 mr-3" 
+              />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Marketing Execution Podcast
+              </h1>
+            </Link>
+            
+            <div className="ml-auto flex items-center space-x-2">
+              <Button variant={route.name === "calendar" ? "default" : "ghost"} size="sm" asChild>
+                <Link to={CALENDAR_PATH}>
+                  <CalendarDays className="h-5 w-5 mr-1" />
+                  Calendar
+                </Link>
+              </Button>
+              <Button variant={route.name === "feed" ? "default" : "ghost"} size="sm" asChild>
+                <Link to={FEED_PATH}>
+                  <Rss className="h-5 w-5 mr-1" />
+                  Feed
+                </Link>
+              </Button>
+              {/* Make it obvious when not running against production */}
+              {config.profile !== "production" && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                  {config.profile}
+                </span>
+              )}
+              {config.settingsEnabled && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsSettingsOpen(true)}
+                  title="Settings"
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
+              )}
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                {user.name}
+                <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                  {ROLE_LABELS[user.role]}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => signOut().catch((err) => console.error("Error signing out:", err))}
+                title="Sign out"
+              >
+                <LogOut className="h-5 w-5" />
+              </Button>
+            </div>
           </div>
         </div>
       </header>
       
       <main className="flex-grow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Generations still waiting for their scripts */}
+          <JobsTray />
+          
+          {route.name === "episode" && <EpisodeDetail episodeId={route.episodeId} />}
+          
+          {route.name === "calendar" && <PublishingCalendar />}
+          
+          {route.name === "feed" && <PodcastFeed />}
+          
+          {route.name === "not_found" && (
+            <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8 text-center">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Page not found</h2>
+              <Link to={DASHBOARD_PATH} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                Back to the dashboard
+              </Link>
+            </div>
+          )}
+          
+          {/* The dashboard stays mounted on other pages so an in-flight submission isn't dropped */}
+          <div className={`grid grid-cols-1 lg:grid-cols-2 gap-8 ${route.name === "dashboard" ? "" : "hidden"}`}>
             {/* Form Section */}
             <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8">
               <div className="mb-8">
@@ -62,14 +159,37 @@ function App() {
                   Episode Interview Scripts and Audio Generator
                 </h2>
                 <p className="mt-2 text-gray-600 dark:text-gray-300">
-                  Upload your PDF and get a professionally generated podcast script in minutes.
+                  Upload your source document and get a professionally generated podcast script in minutes.
                 </p>
               </div>
               
-              <PodcastForm 
-                selectedScriptLinks={selectedScriptLinks}
-                selectedEpisodeName={selectedEpisodeName}
-              />
+              <div className="mb-6 flex space-x-2">
+                <Button
+                  variant={uploadMode === "single" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setUploadMode("single")}
+                >
+                  Single Episode
+                </Button>
+                <Button
+                  variant={uploadMode === "batch" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setUploadMode("batch")}
+                >
+                  Batch Upload
+                </Button>
+              </div>
+              
+              {/* Both stay mounted so switching modes doesn't drop an in-flight submission */}
+              <div className={uploadMode === "single" ? "" : "hidden"}>
+                <PodcastForm 
+                  selectedScriptLinks={selectedScriptLinks}
+                  selectedEpisodeName={selectedEpisodeName}
+                />
+              </div>
+              <div className={uploadMode === "batch" ? "" : "hidden"}>
+                <BatchUpload />
+              </div>
             </div>
             
             {/* Episodes List Section */}
@@ -100,6 +220,7 @@ function App() {
         </div>
       </footer>
       
+      <SettingsDialog isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
       <Toaster />
     </div>
   );
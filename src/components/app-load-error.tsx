@@ -0,0 +1,24 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Shown instead of the app when its code can't be loaded, e.g. after a deploy while the page was open or offline
+export function AppLoadError() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8 max-w-lg w-full">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 text-red-500" />
+          The App Couldn't Load
+        </h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+          Part of the app failed to download. A new version may have been released, or the connection dropped.
+        </p>
+        <div className="mt-6">
+          <Button type="button" onClick={() => window.location.reload()}>
+            Reload
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import * as React from "react";
+import { ExternalLink, Loader2, Pause, Play, RotateCcw, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatTimestamp } from "@/lib/audio-comments";
+import { loadWaveform } from "@/lib/waveform";
+
+// Speeds offered for review; faster speeds help skim long recordings
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+// Seconds jumped by the skip buttons
+const SKIP_SECONDS = 10;
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-900 dark:text-gray-100";
+
+// A point of interest pinned to the waveform
+export interface AudioMarker {
+  id: string;
+  seconds: number;
+  label: string;
+}
+
+interface AudioPlayerProps {
+  src: string;
+  markers?: AudioMarker[];
+  onTimeUpdate?: (seconds: number) => void;
+  onDurationChange?: (seconds: number) => void;
+  onMarkerClick?: (marker: AudioMarker) => void;
+}
+
+// Audio player with a clickable waveform and speed control; the ref gives access to the audio element for seeking
+export const AudioPlayer = React.forwardRef<HTMLAudioElement, AudioPlayerProps>(
+  ({ src, markers = [], onTimeUpdate, onDurationChange, onMarkerClick }, ref) => {
+    const audioRef = React.useRef<HTMLAudioElement>(null);
+    // The element is rendered on every pass, so it is set by the time the handle is read
+    React.useImperativeHandle(ref, () => audioRef.current as HTMLAudioElement, []);
+
+    const [isPlaying, setIsPlaying] = React.useState(false);
+    const [currentTime, setCurrentTime] = React.useState(0);
+    const [duration, setDuration] = React.useState(0);
+    const [playbackRate, setPlaybackRate] = React.useState(1);
+    const [peaks, setPeaks] = React.useState<number[] | null>(null);
+    const [waveformError, setWaveformError] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+      let isCancelled = false;
+      setPeaks(null);
+      setWaveformError(null);
+      setCurrentTime(0);
+      setDuration(0);
+      setIsPlaying(false);
+
+      loadWaveform(src)
+        .then((loaded) => {
+          if (!isCancelled) setPeaks(loaded);
+        })
+        .catch((err) => {
+          console.error("Error loading waveform:", err);
+          if (!isCancelled) setWaveformError(err instanceof Error ? err.message : "Couldn't draw the waveform.");
+        });
+
+      return () => {
+        isCancelled = true;
+      };
+    }, [src]);
+
+    // The element keeps its own rate when the source changes, so apply ours again
+    React.useEffect(() => {
+      if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+    }, [playbackRate, src]);
+
+    const seek = (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = Math.min(Math.max(0, seconds), duration || audio.duration || 0);
+    };
+
+    const togglePlay = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.paused) {
+        audio.play().catch((err) => console.error("Error playing audio:", err));
+      } else {
+        audio.pause();
+      }
+    };
+
+    const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!duration) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      seek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const progress = duration > 0 ? currentTime / duration : 0;
+
+    return (
+      <div className="space-y-2">
+        <audio
+          ref={audioRef}
+          src={src}
+          preload="metadata"
+          onLoadedMetadata={(e) => {
+            setDuration(e.currentTarget.duration);
+            onDurationChange?.(e.currentTarget.duration);
+          }}
+          onTimeUpdate={(e) => {
+            setCurrentTime(e.currentTarget.currentTime);
+            onTimeUpdate?.(e.currentTarget.currentTime);
+          }}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+        />
+
+        <div
+          className="relative h-16 cursor-pointer select-none rounded bg-gray-50 dark:bg-gray-900"
+          onClick={handleWaveformClick}
+          title="Click to jump to this point"
+        >
+          {peaks ? (
+            <div className="absolute inset-0 flex items-center gap-px px-1">
+              {peaks.map((peak, index) => (
+                <div
+                  key={index}
+                  className={`flex-1 rounded-sm ${
+                    index / peaks.length < progress ? "bg-blue-500" : "bg-gray-300 dark:bg-gray-600"
+                  }`}
+                  style={{ height: `${Math.max(4, peak * 100)}%` }}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="absolute inset-x-1 top-1/2 -translate-y-1/2">
+              <div className="h-1.5 w-full rounded bg-gray-300 dark:bg-gray-600">
+                <div className="h-1.5 rounded bg-blue-500" style={{ width: `${progress * 100}%` }} />
+              </div>
+              {!waveformError && (
+                <Loader2 className="absolute left-1/2 -top-6 h-4 w-4 -translate-x-1/2 animate-spin text-gray-400" />
+              )}
+            </div>
+          )}
+
+          {duration > 0 &&
+            markers.map((marker) => (
+              <button
+                key={marker.id}
+                type="button"
+                className="absolute top-0 bottom-0 w-0.5 -ml-px bg-amber-500 hover:w-1"
+                style={{ left: `${Math.min(100, (marker.seconds / duration) * 100)}%` }}
+                title={`${formatTimestamp(marker.seconds)} — ${marker.label}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  seek(marker.seconds);
+                  onMarkerClick?.(marker);
+                }}
+              />
+            ))}
+        </div>
+        {waveformError && <p className="text-xs text-gray-500 dark:text-gray-400">{waveformError}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button type="button" size="sm" onClick={togglePlay} title={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => seek(currentTime - SKIP_SECONDS)}
+            title={`Back ${SKIP_SECONDS} seconds`}
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => seek(currentTime + SKIP_SECONDS)}
+            title={`Forward ${SKIP_SECONDS} seconds`}
+          >
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <span className="text-sm tabular-nums text-gray-700 dark:text-gray-300">
+            {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+          </span>
+          <select
+            value={playbackRate}
+            onChange={(e) => setPlaybackRate(Number(e.target.value))}
+            className={`${SELECT_CLASS_NAME} ml-auto`}
+            title="Playback speed"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}×
+              </option>
+            ))}
+          </select>
+          <a
+            href={src}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 inline-flex items-center"
+          >
+            Open
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </a>
+        </div>
+      </div>
+    );
+  }
+);
+AudioPlayer.displayName = "AudioPlayer";
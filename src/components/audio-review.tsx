@@ -0,0 +1,206 @@
+import { useRef, useState } from "react";
+import { FileText, Headphones, Loader2, MessageSquarePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AudioPlayer, type AudioMarker } from "@/components/audio-player";
+import { TranscriptSync } from "@/components/transcript-sync";
+import { useAudioComments } from "@/hooks/use-audio-comments";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIO_KEYS,
+  AUDIO_LABELS,
+  canRemoveAudioComment,
+  formatTimestamp,
+  getCurrentAudioComments,
+  type AudioComment,
+  type AudioKey,
+} from "@/lib/audio-comments";
+import type { Episode } from "@/lib/episodes";
+import { hasTranscript } from "@/lib/transcript-alignment";
+
+const isUrl = (value: string | null | undefined): value is string => !!value && /^https?:\/\//.test(value);
+
+interface AudioReviewProps {
+  episode: Episode;
+}
+
+// Play an episode's generated audio with timestamped review comments, and follow along in its transcript
+export function AudioReview({ episode }: AudioReviewProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { comments, isLoading, addComment, removeComment } = useAudioComments(episode);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const availableKeys = AUDIO_KEYS.filter((key) => isUrl(episode[key]));
+  const [selectedKey, setSelectedKey] = useState<AudioKey | null>(null);
+  const audioKey = selectedKey && availableKeys.includes(selectedKey) ? selectedKey : availableKeys[0];
+
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+
+  if (!audioKey) return null;
+
+  const src = episode[audioKey] as string;
+  const currentComments = getCurrentAudioComments(comments, episode, audioKey);
+  const markers: AudioMarker[] = currentComments.map((comment) => ({
+    id: comment.id,
+    seconds: comment.position_seconds,
+    label: comment.comment,
+  }));
+
+  const canCompare = hasTranscript(episode, audioKey);
+  const showTranscript = canCompare && isComparing;
+
+  const seekTo = (seconds: number) => {
+    if (audioRef.current) audioRef.current.currentTime = seconds;
+  };
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addComment(audioKey, currentTime, draft);
+      setDraft("");
+    } catch (err) {
+      console.error("Error adding audio comment:", err);
+      toast({
+        title: "Comment not saved",
+        description: err instanceof Error ? err.message : "Failed to save the comment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveComment = async (comment: AudioComment) => {
+    if (!confirm("Remove this comment?")) return;
+
+    try {
+      await removeComment(comment);
+    } catch (err) {
+      console.error("Error removing audio comment:", err);
+      toast({
+        title: "Comment not removed",
+        description: err instanceof Error ? err.message : "Failed to remove the comment.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Headphones className="h-5 w-5 mr-2" />
+          Audio Review
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {availableKeys.map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={key === audioKey ? "default" : "outline"}
+              onClick={() => {
+                setSelectedKey(key);
+                setCurrentTime(0);
+                setDuration(0);
+              }}
+            >
+              {AUDIO_LABELS[key]}
+            </Button>
+          ))}
+          {canCompare && (
+            <Button size="sm" variant={isComparing ? "default" : "outline"} onClick={() => setIsComparing(!isComparing)}>
+              <FileText className="h-4 w-4 mr-1" />
+              Transcript
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className={showTranscript ? "grid grid-cols-1 lg:grid-cols-2 gap-6" : ""}>
+        <div className="space-y-4 min-w-0">
+          <AudioPlayer
+            ref={audioRef}
+            src={src}
+            markers={markers}
+            onTimeUpdate={setCurrentTime}
+            onDurationChange={setDuration}
+          />
+
+          <form onSubmit={handleAddComment} className="flex gap-2">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={`Comment at ${formatTimestamp(currentTime)}`}
+              disabled={isSaving}
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={isSaving || !draft.trim()}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageSquarePlus className="h-4 w-4 mr-1" />}
+              {!isSaving && "Comment"}
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          ) : currentComments.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No comments yet. Pause where something needs fixing and leave a note.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {currentComments.map((comment) => (
+                <li key={comment.id} className="flex items-start gap-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => seekTo(comment.position_seconds)}
+                    className="font-mono text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900/30 dark:text-amber-300"
+                    title="Jump to this point"
+                  >
+                    {formatTimestamp(comment.position_seconds)}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words">{comment.comment}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {comment.author_email || "Unknown user"} · {new Date(comment.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {canRemoveAudioComment(user, comment) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveComment(comment)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove comment"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {showTranscript && (
+          <div className="min-w-0">
+            <TranscriptSync
+              key={audioKey}
+              episode={episode}
+              audioKey={audioKey}
+              duration={duration}
+              currentTime={currentTime}
+              onSeek={seekTo}
+            />
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
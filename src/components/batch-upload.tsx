@@ -0,0 +1,255 @@
+import { useMemo, useRef, useState } from "react";
+import { Loader2, RefreshCw, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useEpisodeQuery } from "@/hooks/use-episodes";
+import { useUploadQueue, type UploadItem } from "@/hooks/use-upload-queue";
+import { listEpisodesByName } from "@/lib/episodes";
+import { episodeNameSchema } from "@/lib/generation";
+import { getSourceKind, SOURCE_FILE_ACCEPT } from "@/lib/source-documents";
+
+const STATUS_LABELS: Record<UploadItem["status"], string> = {
+  draft: "Ready",
+  queued: "Queued",
+  uploading: "Uploading",
+  submitted: "Submitted",
+  failed: "Failed",
+};
+
+// Validate draft names against the naming rule, existing episodes and the rest of the batch
+const validateNames = (items: UploadItem[], existingNames: Set<string>): Record<string, string | null> => {
+  const errors: Record<string, string | null> = {};
+
+  items.forEach((item) => {
+    if (item.status !== "draft" && item.status !== "failed") {
+      errors[item.id] = null;
+      return;
+    }
+
+    const result = episodeNameSchema.safeParse(item.episodeName);
+    if (!result.success) {
+      errors[item.id] = result.error.issues[0].message;
+      return;
+    }
+
+    const name = result.data.toLowerCase();
+    if (existingNames.has(name)) {
+      errors[item.id] = "An episode with this name already exists.";
+      return;
+    }
+
+    const isRepeated = items.some(
+      (other) => other.id !== item.id && other.episodeName.trim().toLowerCase() === name
+    );
+    errors[item.id] = isRepeated ? "This name is used more than once in the batch." : null;
+  });
+
+  return errors;
+};
+
+export function BatchUpload() {
+  const { items, addFiles, renameItem, removeItem, enqueue, clearSubmitted } = useUploadQueue();
+  const { toast } = useToast();
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Rows that already use one of the names waiting to be submitted
+  const pendingNames = useMemo(
+    () =>
+      [
+        ...new Set(
+          items
+            .filter((item) => item.status === "draft" || item.status === "failed")
+            .map((item) => item.episodeName.trim().toLowerCase())
+            .filter(Boolean)
+        ),
+      ].sort(),
+    [items]
+  );
+  const { episodes } = useEpisodeQuery(
+    pendingNames.length > 0 ? `names:${JSON.stringify(pendingNames)}` : null,
+    () => listEpisodesByName(pendingNames),
+    (episode) => !episode.deleted_at && pendingNames.includes(episode.episode_interview_file_name?.trim().toLowerCase() || "")
+  );
+
+  // Names already taken by rows in the autoworkflow table
+  const existingNames = useMemo(
+    () =>
+      new Set(
+        episodes
+          .map((episode) => episode.episode_interview_file_name?.trim().toLowerCase())
+          .filter((name): name is string => !!name)
+      ),
+    [episodes]
+  );
+
+  const nameErrors = useMemo(() => validateNames(items, existingNames), [items, existingNames]);
+
+  const drafts = items.filter((item) => item.status === "draft");
+  const validDrafts = drafts.filter((item) => !nameErrors[item.id]);
+  const hasSubmitted = items.some((item) => item.status === "submitted");
+
+  // Keep supported documents only and tell the user about anything skipped
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const files = Array.from(fileList);
+    const documents = files.filter((file) => file.size > 0 && getSourceKind(file) !== null);
+
+    if (documents.length < files.length) {
+      toast({
+        title: "Some Files Skipped",
+        description: `${files.length - documents.length} file(s) were not PDF, DOCX, Markdown or text files.`,
+        variant: "destructive",
+      });
+    }
+
+    addFiles(documents);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleQueueAll = () => {
+    enqueue(validDrafts.map((item) => item.id));
+
+    toast({
+      title: "Batch Queued",
+      description: `${validDrafts.length} episode(s) will be sent for generation.`,
+      variant: "default",
+    });
+  };
+
+  // Retrying a failed item re-checks its name first
+  const handleRetry = (item: UploadItem) => {
+    if (nameErrors[item.id]) return;
+    enqueue([item.id]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <label
+        htmlFor="batchSourceFiles"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer ${
+          isDragging
+            ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-400 dark:border-blue-600'
+            : 'bg-gray-50 dark:hover:bg-gray-800 dark:bg-gray-700 hover:bg-gray-100 border-gray-300 dark:border-gray-600'
+        }`}
+      >
+        <div className="flex flex-col items-center justify-center pt-5 pb-6">
+          <Upload className="w-8 h-8 mb-3 text-gray-500 dark:text-gray-400" />
+          <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+            <span className="font-semibold">Click to upload</span> or drag and drop several documents
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            PDF, DOCX, Markdown or TXT - episode names are taken from the file names
+          </p>
+        </div>
+        <input
+          id="batchSourceFiles"
+          type="file"
+          accept={SOURCE_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          ref={fileInputRef}
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            // Allow picking the same files again
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {items.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {items.map((item) => {
+            const isEditable = item.status === "draft" || item.status === "failed";
+            const error = nameErrors[item.id];
+
+            return (
+              <li key={item.id} className="py-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={item.episodeName}
+                    onChange={(e) => renameItem(item.id, e.target.value)}
+                    disabled={!isEditable}
+                    aria-label={`Episode name for ${item.file.name}`}
+                  />
+                  <span className="w-24 text-xs font-medium text-gray-600 dark:text-gray-300 flex items-center">
+                    {item.status === "uploading" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  {item.status === "failed" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 h-7 w-7"
+                      onClick={() => handleRetry(item)}
+                      disabled={!!error}
+                      title="Retry upload"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {item.status !== "queued" && item.status !== "uploading" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 h-7 w-7"
+                      onClick={() => removeItem(item.id)}
+                      title="Remove from batch"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">{item.file.name}</p>
+
+                {(item.status === "uploading" || item.status === "submitted") && (
+                  <div className="h-1.5 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                {item.status === "failed" && item.error && (
+                  <p className="text-sm text-red-500">{item.error}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={handleQueueAll}
+          disabled={validDrafts.length === 0}
+        >
+          Generate {validDrafts.length > 0 ? validDrafts.length : ""} Episode{validDrafts.length === 1 ? "" : "s"}
+        </Button>
+        {hasSubmitted && (
+          <Button type="button" variant="outline" onClick={clearSubmitted}>
+            Clear Submitted
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { AlertCircle, CheckCircle, Download, Loader2, MinusCircle, RefreshCw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { addJob } from "@/hooks/use-generation-jobs";
+import { getOpenedScripts } from "@/hooks/use-opened-scripts";
+import { useToast } from "@/hooks/use-toast";
+import { can } from "@/lib/auth";
+import {
+  BULK_ACTION_LABELS,
+  runBulkAction,
+  toEpisodesCsv,
+  type BulkActionKind,
+  type BulkProgress,
+  type BulkStatusChange,
+} from "@/lib/bulk-actions";
+import type { Episode } from "@/lib/episodes";
+import { SETTABLE_STATUS_COLUMNS, type StatusColumn } from "@/lib/pipeline";
+import { downloadTextFile } from "@/lib/utils";
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-900 dark:text-gray-100";
+
+const episodeLabel = (episode: Episode): string => episode.episode_interview_file_name || `Episode ${episode.id}`;
+
+const plural = (count: number): string => `${count} episode${count === 1 ? "" : "s"}`;
+
+interface BulkActionsBarProps {
+  // The checked episodes, in list order
+  episodes: Episode[];
+  // Columns shown in the table, used for the export
+  columns: string[];
+  onEpisodeUpdated: (episode: Episode) => void;
+  onEpisodeRemoved: (episodeId: string) => void;
+  // Called with the episodes an action succeeded for, so they can be unchecked
+  onFinished: (succeededIds: string[]) => void;
+  onClearSelection: () => void;
+}
+
+// Actions for the checked rows of the episodes list, with progress and a per-episode report of failed and skipped rows
+export function BulkActionsBar({
+  episodes,
+  columns,
+  onEpisodeUpdated,
+  onEpisodeRemoved,
+  onFinished,
+  onClearSelection,
+}: BulkActionsBarProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [statusChange, setStatusChange] = useState<BulkStatusChange>({
+    column: "episode_text_files_status",
+    value: SETTABLE_STATUS_COLUMNS.episode_text_files_status[0],
+  });
+
+  const canApprove = can(user, "approve");
+  const canDelete = can(user, "delete");
+
+  const run = async (action: BulkActionKind) => {
+    const count = episodes.length;
+    if (action === "trash" && !confirm(`Move ${plural(count)} to the trash?`)) return;
+    if (action === "rerun" && !confirm(`Send ${plural(count)} to the generation workflow again?`)) return;
+
+    setIsRunning(true);
+    const submittedAt = Date.now();
+    const results = await runBulkAction(action, episodes, setProgress, {
+      statusChange: action === "status" ? statusChange : null,
+      getOpenedScripts,
+    });
+    setIsRunning(false);
+
+    results.forEach((result) => {
+      if (result.error || result.skipped) return;
+
+      if (action === "trash") {
+        onEpisodeRemoved(result.episode.id);
+      } else if (result.updated) {
+        onEpisodeUpdated(result.updated);
+      }
+
+      // The workflow writes a re-run to a new row, so it is followed by name like any other submission
+      if (action === "rerun") {
+        addJob({
+          episodeName: episodeLabel(result.episode),
+          fileName: result.episode.source_document_file_name,
+          sourceDocument: result.episode.source_document,
+          submittedAt,
+        });
+      }
+    });
+
+    const succeeded = results.filter((result) => !result.error && !result.skipped);
+    onFinished(succeeded.map((result) => result.episode.id));
+
+    const failed = results.filter((result) => result.error).length;
+    const skipped = results.filter((result) => result.skipped).length;
+    toast({
+      title: failed === 0 ? `${BULK_ACTION_LABELS[action]}: done` : `${BULK_ACTION_LABELS[action]}: ${failed} failed`,
+      description: `${plural(succeeded.length)} succeeded${skipped > 0 ? `, ${skipped} skipped` : ""}${
+        failed > 0 ? `, ${failed} failed` : ""
+      }.`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`episodes-${date}.csv`, toEpisodesCsv(episodes, columns), "text/csv;charset=utf-8");
+  };
+
+  const failures = progress ? progress.results.filter((result) => result.error) : [];
+  const skips = progress ? progress.results.filter((result) => result.skipped) : [];
+  const done = progress ? progress.results.length : 0;
+
+  if (episodes.length === 0 && !progress) return null;
+
+  return (
+    <div className="border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 space-y-2">
+      {episodes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-900 dark:text-white mr-2">{plural(episodes.length)} selected</span>
+
+          {canApprove && (
+            <Button size="sm" variant="outline" disabled={isRunning} onClick={() => run("approve")}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          )}
+
+          <div className="flex items-center gap-1">
+            <select
+              value={statusChange.column}
+              disabled={isRunning}
+              onChange={(e) => {
+                const column = e.target.value as StatusColumn;
+                setStatusChange({ column, value: SETTABLE_STATUS_COLUMNS[column][0] });
+              }}
+              className={SELECT_CLASS_NAME}
+            >
+              {(Object.keys(SETTABLE_STATUS_COLUMNS) as StatusColumn[]).map((column) => (
+                <option key={column} value={column}>
+                  {column}
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusChange.value}
+              disabled={isRunning}
+              onChange={(e) => setStatusChange({ ...statusChange, value: e.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              {SETTABLE_STATUS_COLUMNS[statusChange.column].map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" disabled={isRunning} onClick={() => run("status")}>
+              Set Status
+            </Button>
+          </div>
+
+          <Button size="sm" variant="outline" disabled={isRunning} onClick={handleExport}>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </Button>
+
+          <Button size="sm" variant="outline" disabled={isRunning} onClick={() => run("rerun")}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Re-run
+          </Button>
+
+          {canDelete && (
+            <Button size="sm" variant="outline" disabled={isRunning} onClick={() => run("trash")}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Trash
+            </Button>
+          )}
+
+          <Button size="sm" variant="ghost" disabled={isRunning} onClick={onClearSelection}>
+            Clear Selection
+          </Button>
+        </div>
+      )}
+
+      {progress && (
+        <div className="text-sm">
+          <div className="flex items-center justify-between text-gray-700 dark:text-gray-300">
+            <span className="flex items-center">
+              {isRunning && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {BULK_ACTION_LABELS[progress.action]}: {done} of {progress.total} done
+              {skips.length > 0 && `, ${skips.length} skipped`}
+              {failures.length > 0 && `, ${failures.length} failed`}
+            </span>
+            {!isRunning && (
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                onClick={() => setProgress(null)}
+                title="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          <div className="mt-1 h-1.5 w-full bg-gray-200 dark:bg-gray-700 rounded">
+            <div
+              className={`h-1.5 rounded ${failures.length > 0 ? "bg-red-500" : "bg-blue-500"}`}
+              style={{ width: `${progress.total > 0 ? (done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          {failures.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {failures.map((result) => (
+                <li key={result.episode.id} className="flex items-start text-red-700 dark:text-red-400">
+                  <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                  <span>
+                    <span className="font-medium">{episodeLabel(result.episode)}</span>: {result.error}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {skips.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {skips.map((result) => (
+                <li key={result.episode.id} className="flex items-start text-amber-700 dark:text-amber-400">
+                  <MinusCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                  <span>
+                    <span className="font-medium">{episodeLabel(result.episode)}</span> skipped: {result.skipped}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
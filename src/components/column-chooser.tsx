@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Columns3, GripVertical, Pin, PinOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  getOrderedColumns,
+  moveColumn,
+  setColumnHidden,
+  PINNABLE_COLUMN,
+  type ColumnLayout,
+} from "@/lib/column-layout";
+
+interface ColumnChooserProps {
+  layout: ColumnLayout;
+  availableColumns: string[];
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+}
+
+// Dropdown to show, hide and drag columns of the episodes table into order
+export function ColumnChooser({ layout, availableColumns, onChange, onReset }: ColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const columns = getOrderedColumns(layout, availableColumns);
+  const hiddenCount = columns.filter((column) => layout.hidden.includes(column)).length;
+
+  const handleDrop = (target: string) => {
+    if (draggedColumn) {
+      onChange(moveColumn(layout, availableColumns, draggedColumn, target));
+    }
+    setDraggedColumn(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+        <Columns3 className="h-4 w-4 mr-1" />
+        Columns
+        {hiddenCount > 0 && <span className="ml-1 text-gray-500 dark:text-gray-400">({hiddenCount} hidden)</span>}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-1 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg">
+          <p className="px-3 pt-3 text-xs text-gray-500 dark:text-gray-400">
+            Drag columns to reorder them. Drag a column header edge in the table to resize it.
+          </p>
+          <ul className="max-h-96 overflow-y-auto p-2">
+            {columns.map((column) => {
+              const isPinned = layout.pinned && column === PINNABLE_COLUMN;
+              return (
+                <li
+                  key={column}
+                  draggable={!isPinned}
+                  onDragStart={() => setDraggedColumn(column)}
+                  onDragOver={(e) => {
+                    if (!draggedColumn || isPinned) return;
+                    e.preventDefault();
+                    setDropTarget(column);
+                  }}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={() => handleDrop(column)}
+                  onDragEnd={() => {
+                    setDraggedColumn(null);
+                    setDropTarget(null);
+                  }}
+                  className={`flex items-center px-1 py-1 rounded text-sm text-gray-700 dark:text-gray-300 ${
+                    dropTarget === column ? "border-t-2 border-blue-500" : ""
+                  } ${draggedColumn === column ? "opacity-50" : ""}`}
+                >
+                  <GripVertical
+                    className={`h-4 w-4 mr-1 flex-shrink-0 ${isPinned ? "opacity-20" : "cursor-move text-gray-400"}`}
+                  />
+                  <label className="flex items-center flex-grow min-w-0">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={isPinned || !layout.hidden.includes(column)}
+                      disabled={isPinned}
+                      onChange={(e) => onChange(setColumnHidden(layout, column, !e.target.checked))}
+                    />
+                    <span className="truncate">{column}</span>
+                  </label>
+                  {column === PINNABLE_COLUMN && (
+                    <button
+                      type="button"
+                      className="ml-1 p-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                      title={layout.pinned ? "Unpin" : "Pin to the left"}
+                      onClick={() => onChange({ ...layout, pinned: !layout.pinned })}
+                    >
+                      {layout.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-between border-t border-gray-200 dark:border-gray-700 p-2">
+            <Button variant="ghost" size="sm" onClick={onReset}>
+              Reset
+            </Button>
+            <Button size="sm" onClick={() => setIsOpen(false)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
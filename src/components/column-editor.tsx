@@ -0,0 +1,83 @@
+import { Input } from "@/components/ui/input";
+import { getColumnDefinition } from "@/lib/episode-columns";
+
+// Shared look of the native controls that have no ui/ component
+const FIELD_CLASS_NAME =
+  "w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+interface ColumnEditorProps {
+  column: string;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}
+
+// Inline editor for one cell, picked from the column's type in the registry
+export function ColumnEditor({ column, value, error, onChange }: ColumnEditorProps) {
+  const definition = getColumnDefinition(column);
+  const errorClassName = error ? "border-red-500" : "";
+
+  const renderField = () => {
+    switch (definition.type) {
+      case "multiline":
+        return (
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={4}
+            className={`${FIELD_CLASS_NAME} min-w-[16rem] resize-y ${errorClassName}`}
+          />
+        );
+
+      case "status":
+        return (
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`${FIELD_CLASS_NAME} h-10 ${errorClassName}`}
+          >
+            <option value="">—</option>
+            {/* Keep an unknown stored value selectable so it isn't silently replaced */}
+            {value && !definition.options?.includes(value) && <option value={value}>{value}</option>}
+            {definition.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      case "integer":
+        return (
+          <Input type="number" step={1} value={value} onChange={(e) => onChange(e.target.value)} className={errorClassName} />
+        );
+
+      case "date":
+        return <Input type="date" value={value} onChange={(e) => onChange(e.target.value)} className={errorClassName} />;
+
+      case "time":
+        return <Input type="time" value={value} onChange={(e) => onChange(e.target.value)} className={errorClassName} />;
+
+      case "url":
+        return (
+          <Input
+            type="url"
+            placeholder="https://"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`min-w-[16rem] ${errorClassName}`}
+          />
+        );
+
+      default:
+        return <Input value={value} onChange={(e) => onChange(e.target.value)} className={`w-full ${errorClassName}`} />;
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      {renderField()}
+      {error && <p className="mt-1 text-xs text-red-500 whitespace-normal">{error}</p>}
+    </div>
+  );
+}
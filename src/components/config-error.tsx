@@ -0,0 +1,52 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SettingsForm } from "@/components/settings-dialog";
+import { clearConfigOverrides, config, rejectedConfig } from "@/lib/config";
+
+interface ConfigErrorProps {
+  errors: string[];
+}
+
+// Shown instead of the app when the configuration fails validation at startup
+export function ConfigError({ errors }: ConfigErrorProps) {
+  const current = rejectedConfig || config;
+
+  const handleReset = () => {
+    clearConfigOverrides();
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8 max-w-lg w-full">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 text-red-500" />
+          Invalid Configuration
+        </h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+          The app can't start with the current <span className="font-medium">{current.profile}</span> configuration:
+        </p>
+        <ul className="mt-3 list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+
+        <div className="mt-6">
+          {current.settingsEnabled ? (
+            <SettingsForm current={current} />
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Fix the VITE_ environment variables for this build and redeploy.
+              </p>
+              <Button type="button" variant="outline" onClick={handleReset}>
+                Clear Saved Settings
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
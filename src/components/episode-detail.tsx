@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { ArrowLeft, ExternalLink, History, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/components/link";
+import { EpisodeHistoryDrawer } from "@/components/episode-history-drawer";
+import { AudioReview } from "@/components/audio-review";
+import { StageBadge, StatusBadge } from "@/components/status-badge";
+import { useEpisode } from "@/hooks/use-episodes";
+import { useToast } from "@/hooks/use-toast";
+import { COLUMN_SECTIONS, getColumnDefinition } from "@/lib/episode-columns";
+import { getEpisodeValue } from "@/lib/episodes";
+import { config } from "@/lib/config";
+import { getPublishInstant, STATUS_COLUMNS, type StatusColumn } from "@/lib/pipeline";
+import { DASHBOARD_PATH, getEpisodeUrl } from "@/lib/routes";
+import { findScheduleMismatches } from "@/lib/schedule";
+import { formatInTimeZone, getViewerTimeZone } from "@/lib/timezone";
+
+const isUrl = (value: string): boolean => /^https?:\/\//.test(value);
+
+// Read-only rendering of one field, based on its column type
+function FieldValue({ column, value }: { column: string; value: unknown }) {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-gray-400 dark:text-gray-500">—</span>;
+  }
+
+  if (column in STATUS_COLUMNS) {
+    return <StatusBadge column={column as StatusColumn} status={String(value)} />;
+  }
+
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  if (isUrl(text)) {
+    return (
+      <a
+        href={text}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 inline-flex items-center break-all"
+      >
+        {text}
+        <ExternalLink className="h-3 w-3 ml-1 flex-shrink-0" />
+      </a>
+    );
+  }
+
+  if (column === "approved_at" || column === "created_at") {
+    const date = new Date(text);
+    return (
+      <span title={`${formatInTimeZone(date, getViewerTimeZone())} your time`}>
+        {formatInTimeZone(date, config.showTimeZone)}
+      </span>
+    );
+  }
+
+  return (
+    <span className={getColumnDefinition(column).type === "multiline" ? "whitespace-pre-wrap" : ""}>{text}</span>
+  );
+}
+
+interface EpisodeDetailProps {
+  episodeId: string;
+}
+
+// One episode on its own page, with its columns grouped into sections
+export function EpisodeDetail({ episodeId }: EpisodeDetailProps) {
+  const { episode, hasLoaded, error } = useEpisode(episodeId);
+  const { toast } = useToast();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getEpisodeUrl(episodeId));
+      toast({
+        title: "Link copied",
+        description: "Share it so others land directly on this episode.",
+      });
+    } catch (err) {
+      console.error("Error copying link:", err);
+      toast({
+        title: "Copy failed",
+        description: getEpisodeUrl(episodeId),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!hasLoaded && !error) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!episode) {
+    return (
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8 text-center">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Episode not found</h2>
+        <p className="text-gray-600 dark:text-gray-300 mb-4">It may have been purged, or the link is incorrect.</p>
+        <Link to={DASHBOARD_PATH} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+          Back to the dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  // Anything the sections don't cover, so no column is hidden from the page
+  const sectionColumns = new Set<string>(COLUMN_SECTIONS.flatMap((section) => section.columns));
+  const otherColumns = Object.keys(episode).filter(
+    (column) => !sectionColumns.has(column) && column !== "episode_interview_file_name"
+  );
+  const sections = [...COLUMN_SECTIONS, { title: "Other", columns: otherColumns }];
+
+  const publishInstant = getPublishInstant(episode);
+  const scheduleMismatches = findScheduleMismatches(episode);
+  const viewerTimeZone = getViewerTimeZone();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link
+            to={DASHBOARD_PATH}
+            className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white inline-flex items-center"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All episodes
+          </Link>
+          <h2 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
+            {episode.episode_interview_file_name || `Episode ${episode.id}`}
+            <StageBadge episode={episode} />
+          </h2>
+          {episode.deleted_at && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              This episode is in the trash since {new Date(episode.deleted_at).toLocaleString()}.
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            <Link2 className="h-4 w-4 mr-1" />
+            Copy Link
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)}>
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        </div>
+      </div>
+
+      <AudioReview episode={episode} />
+
+      {sections.map((section) => (
+        <section key={section.title} className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{section.title}</h3>
+          {section.title === "Scheduling" && publishInstant && (
+            <p className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+              Publishes {formatInTimeZone(publishInstant, config.showTimeZone)}
+              {viewerTimeZone !== config.showTimeZone && (
+                <span className="text-gray-500 dark:text-gray-400">
+                  {" "}
+                  ({formatInTimeZone(publishInstant, viewerTimeZone)} your time)
+                </span>
+              )}
+            </p>
+          )}
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+            {section.columns.map((column) => (
+              <div
+                key={column}
+                className={getColumnDefinition(column).type === "multiline" ? "md:col-span-3" : ""}
+              >
+                <dt className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  {column}
+                </dt>
+                <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100 break-words">
+                  <FieldValue column={column} value={getEpisodeValue(episode, column)} />
+                </dd>
+                {scheduleMismatches[column] && (
+                  <p className="mt-1 text-xs text-red-500">{scheduleMismatches[column]}</p>
+                )}
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+
+      <EpisodeHistoryDrawer episode={isHistoryOpen ? episode : null} onClose={() => setIsHistoryOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { Bookmark, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import {
+  BUILT_IN_VIEWS,
+  DATE_FILTER_COLUMNS,
+  DATE_FILTER_LABELS,
+  DATE_PRESET_LABELS,
+  DATE_PRESETS,
+  EMPTY_FILTERS,
+  getStatusFilterColumns,
+  hasActiveFilters,
+  type DateFilterColumn,
+  type DatePreset,
+  type DateRange,
+  type EpisodeFilters,
+  type StatusMatch,
+} from "@/lib/episode-filters";
+import { STATUS_COLUMNS, type StatusColumn } from "@/lib/pipeline";
+
+// Shared look of the native controls that have no ui/ component
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-900 dark:text-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const STATUS_FILTER_LABELS: Record<StatusColumn, string> = {
+  episode_interview_script_status: "Scripts",
+  episode_text_files_status: "Text Files",
+  podcast_status: "Podcast",
+};
+
+// Views are compared by their filters, so picking a view and then changing a filter deselects it
+const sameFilters = (a: EpisodeFilters, b: EpisodeFilters): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+interface EpisodeFiltersBarProps {
+  filters: EpisodeFilters;
+  onChange: (filters: EpisodeFilters) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+// Search box, status facets, date ranges and saved views above the episodes table
+export function EpisodeFiltersBar({ filters, onChange, shownCount, totalCount }: EpisodeFiltersBarProps) {
+  const { user } = useAuth();
+  const { savedViews, saveView, deleteView } = useSavedViews(user?.id);
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+
+  const activeView = [...BUILT_IN_VIEWS, ...savedViews].find((view) => sameFilters(view.filters, filters)) || null;
+  const isSavedViewActive = !!activeView && savedViews.some((view) => view.id === activeView.id);
+
+  const handleViewChange = (viewId: string) => {
+    const view = [...BUILT_IN_VIEWS, ...savedViews].find((v) => v.id === viewId);
+    onChange(view ? view.filters : EMPTY_FILTERS);
+  };
+
+  const toggleStatus = (column: StatusColumn, value: string) => {
+    const current = filters.statuses[column] || [];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    onChange({ ...filters, statuses: { ...filters.statuses, [column]: next } });
+  };
+
+  const setDateRange = (column: DateFilterColumn, range: DateRange | undefined) => {
+    const dateRanges = { ...filters.dateRanges };
+    if (range) {
+      dateRanges[column] = range;
+    } else {
+      delete dateRanges[column];
+    }
+    onChange({ ...filters, dateRanges });
+  };
+
+  const handleSaveView = () => {
+    if (!newViewName?.trim()) return;
+    saveView(newViewName, filters);
+    setNewViewName(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-grow min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={filters.search}
+            onChange={(e) => onChange({ ...filters, search: e.target.value })}
+            placeholder="Search names, titles and descriptions"
+            className="pl-9 h-9"
+          />
+        </div>
+
+        <select
+          value={activeView?.id || ""}
+          onChange={(e) => handleViewChange(e.target.value)}
+          className={SELECT_CLASS_NAME}
+          title="Views"
+        >
+          <option value="">{activeView || !hasActiveFilters(filters) ? "All episodes" : "Custom filters"}</option>
+          <optgroup label="Views">
+            {BUILT_IN_VIEWS.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name}
+              </option>
+            ))}
+          </optgroup>
+          {savedViews.length > 0 && (
+            <optgroup label="My views">
+              {savedViews.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        {newViewName === null ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setNewViewName("")}
+            disabled={!hasActiveFilters(filters) || !!activeView}
+            title="Save the current filters as a view"
+          >
+            <Bookmark className="h-4 w-4 mr-1" />
+            Save View
+          </Button>
+        ) : (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveView();
+            }}
+          >
+            <Input
+              autoFocus
+              value={newViewName}
+              onChange={(e) => setNewViewName(e.target.value)}
+              placeholder="View name"
+              className="h-9 w-40"
+            />
+            <Button type="submit" size="sm" disabled={!newViewName.trim()}>
+              Save
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewViewName(null)}>
+              Cancel
+            </Button>
+          </form>
+        )}
+
+        {isSavedViewActive && activeView && (
+          <Button variant="ghost" size="sm" onClick={() => deleteView(activeView.id)} title="Delete this view">
+            Delete View
+          </Button>
+        )}
+
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_FILTERS)}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(Object.keys(STATUS_COLUMNS) as StatusColumn[]).map((column) => {
+          const selected = filters.statuses[column] || [];
+          return (
+            <details key={column} className="relative">
+              <summary
+                className={`cursor-pointer list-none px-3 py-1.5 rounded-md border ${
+                  selected.length > 0
+                    ? "border-blue-500 text-blue-700 dark:text-blue-300"
+                    : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                }`}
+              >
+                {STATUS_FILTER_LABELS[column]}
+                {selected.length > 0 ? `: ${selected.join(", ")}` : ""}
+              </summary>
+              <div className="absolute z-20 mt-1 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg p-2 space-y-1">
+                {STATUS_COLUMNS[column].map((value) => (
+                  <label key={value} className="flex items-center text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={selected.includes(value)}
+                      onChange={() => toggleStatus(column, value)}
+                    />
+                    {value}
+                  </label>
+                ))}
+              </div>
+            </details>
+          );
+        })}
+
+        {getStatusFilterColumns(filters).length > 1 && (
+          <select
+            value={filters.statusMatch || "all"}
+            onChange={(e) => onChange({ ...filters, statusMatch: e.target.value as StatusMatch })}
+            className={SELECT_CLASS_NAME}
+            title="How the status filters combine"
+          >
+            <option value="all">Match every status</option>
+            <option value="any">Match any status</option>
+          </select>
+        )}
+
+        {DATE_FILTER_COLUMNS.map((column) => {
+          const range = filters.dateRanges[column];
+          const mode = range?.preset || (range ? "custom" : "");
+          return (
+            <div key={column} className="flex items-center gap-1">
+              <span className="text-gray-600 dark:text-gray-300">{DATE_FILTER_LABELS[column]}</span>
+              <select
+                value={mode}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (!value) setDateRange(column, undefined);
+                  else if (value === "custom") setDateRange(column, { from: "", to: "" });
+                  else setDateRange(column, { preset: value as DatePreset });
+                }}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Any time</option>
+                {DATE_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {DATE_PRESET_LABELS[preset]}
+                  </option>
+                ))}
+                <option value="custom">Custom range</option>
+              </select>
+              {mode === "custom" && (
+                <>
+                  <Input
+                    type="date"
+                    value={range?.from || ""}
+                    onChange={(e) => setDateRange(column, { ...range, from: e.target.value })}
+                    className="h-9 w-36"
+                  />
+                  <span className="text-gray-500">–</span>
+                  <Input
+                    type="date"
+                    value={range?.to || ""}
+                    onChange={(e) => setDateRange(column, { ...range, to: e.target.value })}
+                    className="h-9 w-36"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        <span className="ml-auto text-gray-500 dark:text-gray-400">
+          {shownCount === totalCount ? `${totalCount} episodes` : `${shownCount} of ${totalCount} episodes`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { upsertEpisode } from "@/hooks/use-episodes";
+import { useToast } from "@/hooks/use-toast";
+import { can } from "@/lib/auth";
+import {
+  canRestoreField,
+  EpisodeExistsError,
+  HISTORY_ACTION_LABELS,
+  listDeletedEpisodes,
+  listEpisodeHistory,
+  restoreEpisodeField,
+  undeleteEpisode,
+  type EpisodeHistoryEntry,
+} from "@/lib/episode-history";
+import { EpisodeConflictError, type Episode } from "@/lib/episodes";
+
+// Longest value shown in full on the timeline (in characters)
+const MAX_VALUE_LENGTH = 120;
+
+// Render a stored value on one line, shortening long text
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "empty";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Name of the episode a whole-row snapshot belongs to
+const getSnapshotName = (entry: EpisodeHistoryEntry): string => {
+  const snapshot = entry.old_value as Partial<Episode> | null;
+  return snapshot?.episode_interview_file_name || `Episode ${entry.episode_id}`;
+};
+
+interface TimelineEntryProps {
+  entry: EpisodeHistoryEntry;
+  isBusy: boolean;
+  onRestore?: (entry: EpisodeHistoryEntry) => void;
+}
+
+function TimelineEntry({ entry, isBusy, onRestore }: TimelineEntryProps) {
+  return (
+    <li className="border-l-2 border-gray-200 dark:border-gray-700 pl-4 pb-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          {HISTORY_ACTION_LABELS[entry.action]}
+          {entry.field && <span className="ml-1 font-mono text-xs text-gray-600 dark:text-gray-300">{entry.field}</span>}
+        </span>
+        {onRestore && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => onRestore(entry)}
+            disabled={isBusy}
+            title="Restore the previous value"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Restore
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {new Date(entry.created_at).toLocaleString()} by {entry.actor}
+      </p>
+      {entry.field && (
+        <p className="mt-1 text-xs text-gray-700 dark:text-gray-300 break-words">
+          <span className="line-through text-red-600 dark:text-red-400">{formatValue(entry.old_value)}</span>
+          {" → "}
+          <span className="text-green-700 dark:text-green-400">{formatValue(entry.new_value)}</span>
+        </p>
+      )}
+    </li>
+  );
+}
+
+interface EpisodeHistoryDrawerProps {
+  episode: Episode | null;
+  onClose: () => void;
+}
+
+// Timeline of every change to one episode, with restore for individual fields
+export function EpisodeHistoryDrawer({ episode, onClose }: EpisodeHistoryDrawerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<EpisodeHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Reload whenever the row changes, so restores and realtime updates show up straight away
+  useEffect(() => {
+    if (!episode) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    listEpisodeHistory(String(episode.id))
+      .then((history) => {
+        if (!isCancelled) setEntries(history);
+      })
+      .catch((err) => {
+        console.error("Error loading episode history:", err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : "Failed to load the history.");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [episode]);
+
+  const handleRestore = async (entry: EpisodeHistoryEntry) => {
+    if (!episode) return;
+
+    setIsBusy(true);
+    try {
+      const updated = await restoreEpisodeField(entry, episode.version);
+      upsertEpisode(updated);
+      toast({
+        title: "Value restored",
+        description: `${entry.field} was set back to its previous value.`,
+      });
+    } catch (err) {
+      console.error("Error restoring field:", err);
+      // Show the newer row so the timeline can be checked again before restoring
+      if (err instanceof EpisodeConflictError) upsertEpisode(err.current);
+      toast({
+        title: "Restore failed",
+        description: err instanceof Error ? err.message : "Failed to restore the value.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!episode) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md h-full p-6 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            History: {episode.episode_interview_file_name || `Episode ${episode.id}`}
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No changes have been recorded for this episode yet.</p>
+        ) : (
+          <ol>
+            {entries.map((entry) => (
+              <TimelineEntry
+                key={entry.id}
+                entry={entry}
+                isBusy={isBusy}
+                onRestore={user && canRestoreField(entry) ? handleRestore : undefined}
+              />
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface DeletedEpisodesDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Recently purged episodes, which admins can put back from their history snapshot
+export function DeletedEpisodesDrawer({ isOpen, onClose }: DeletedEpisodesDrawerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [deletions, setDeletions] = useState<EpisodeHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    listDeletedEpisodes()
+      .then((entries) => {
+        if (!isCancelled) setDeletions(entries);
+      })
+      .catch((err) => {
+        console.error("Error loading deleted episodes:", err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : "Failed to load deleted episodes.");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen]);
+
+  const handleUndelete = async (entry: EpisodeHistoryEntry) => {
+    setBusyId(entry.id);
+    try {
+      const restored = await undeleteEpisode(entry);
+      upsertEpisode(restored);
+      setDeletions((current) => current.filter((deletion) => deletion.episode_id !== entry.episode_id));
+      toast({
+        title: "Episode restored",
+        description: `${getSnapshotName(entry)} is back in the episodes list.`,
+      });
+    } catch (err) {
+      console.error("Error undeleting episode:", err);
+      if (err instanceof EpisodeExistsError) {
+        setDeletions((current) => current.filter((deletion) => deletion.id !== entry.id));
+      }
+      toast({
+        title: "Undelete failed",
+        description: err instanceof Error ? err.message : "Failed to restore the episode.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md h-full p-6 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Trash2 className="h-5 w-5 mr-2" />
+            Purged Episodes
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {isLoading && deletions.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : deletions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No purged episodes.</p>
+        ) : (
+          <ul className="space-y-3">
+            {deletions.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{getSnapshotName(entry)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Purged {new Date(entry.created_at).toLocaleString()} by {entry.actor}
+                  </p>
+                </div>
+                {can(user, "delete") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleUndelete(entry)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Undelete"}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
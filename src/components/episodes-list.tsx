@@ -1,79 +1,66 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase } from '@/lib/supabase';
-import { Loader2, AlertCircle, Edit, Trash2, Save, X, ExternalLink, Eye, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { Loader2, AlertCircle, Edit, Trash2, Save, X, ExternalLink, Eye, ArrowUpDown, ArrowUp, ArrowDown, History, Maximize2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-
-// Interface representing the exact columns in the autoworkflow table
-interface AutoworkflowRecord {
-  id: string;
-  created_at?: string;
-  episode_text_files_status?: string; // New column
-  podcast_status?: string; // New column
-  [key: string]: any; // Allow for dynamic columns
-}
-
-// Interface for script links to be passed to parent component
-interface ScriptLinks {
-  episode_interview_script_1: string | null;
-  episode_interview_script_2: string | null;
-  episode_interview_script_3: string | null;
-  episode_interview_script_4: string | null;
-  episode_interview_full_script: string | null;
-  episode_interview_file: string | null;
-  episode_interview_script_status?: string;
-  episode_text_files_status?: string; // New column
-  podcast_status?: string; // New column
-}
+import { upsertEpisode, removeEpisode } from '@/hooks/use-episodes';
+import { useEpisodePage } from '@/hooks/use-episode-page';
+import { useAuth } from '@/hooks/use-auth';
+import { useRoute } from '@/hooks/use-route';
+import { useColumnLayout } from '@/hooks/use-column-layout';
+import { StageBadge, StatusBadge } from '@/components/status-badge';
+import { DeletedEpisodesDrawer, EpisodeHistoryDrawer } from '@/components/episode-history-drawer';
+import { TrashDrawer } from '@/components/trash-drawer';
+import { MergeDialog } from '@/components/merge-dialog';
+import { ColumnEditor } from '@/components/column-editor';
+import { Link } from '@/components/link';
+import { EpisodeFiltersBar } from '@/components/episode-filters-bar';
+import { ColumnChooser } from '@/components/column-chooser';
+import { BulkActionsBar } from '@/components/bulk-actions-bar';
+import {
+  getEpisodeValue,
+  toScriptLinks,
+  trashEpisode,
+  updateEpisode,
+  EpisodeConflictError,
+  EMPTY_SCRIPT_LINKS,
+  EPISODE_COLUMNS,
+  type Episode,
+  type EpisodeUpdate,
+  type ScriptLinks,
+} from '@/lib/episodes';
+import { formatEditorValue, isEditableColumn, parseEditorValues } from '@/lib/episode-columns';
+import {
+  diffEditedFields,
+  findEditConflicts,
+  resolveEditConflicts,
+  type ConflictChoice,
+  type EditConflict,
+  type EditedFields,
+} from '@/lib/episode-edits';
+import { getVisibleColumns, setColumnWidth, MIN_COLUMN_WIDTH, PINNABLE_COLUMN } from '@/lib/column-layout';
+import { EMPTY_FILTERS, type EpisodeFilters } from '@/lib/episode-filters';
+import type { EpisodeQuery } from '@/lib/episode-query';
+import { isSortableColumn, parseSortParams, toggleSortKey, toSortSearch, type EpisodeSort, type NullPlacement } from '@/lib/episode-sort';
+import { STATUS_COLUMNS, type StatusColumn } from '@/lib/pipeline';
+import { can } from '@/lib/auth';
+import { getEpisodePath } from '@/lib/routes';
+import { config } from '@/lib/config';
+import { deriveScheduleFields, findScheduleMismatches, isScheduleColumn, toScheduleFields } from '@/lib/schedule';
+import { formatInTimeZone, getViewerTimeZone } from '@/lib/timezone';
+
+// Height of a row that hasn't been rendered yet (in pixels); rendered rows are measured, since an open editor
+// makes its row taller
+const ESTIMATED_ROW_HEIGHT = 65;
+// Rows rendered above and below the visible ones, so fast scrolling doesn't show gaps
+const OVERSCAN_ROWS = 10;
+// Wait for typing to pause before querying the server (in milliseconds)
+const FILTER_DELAY = 300;
 
 // Props for the EpisodesList component
 interface EpisodesListProps {
   onRecordSelect?: (scriptLinks: ScriptLinks, episodeName: string | undefined) => void;
 }
 
-// Sort direction type
-type SortDirection = 'asc' | 'desc' | null;
-
-// Sort state interface
-interface SortState {
-  column: string | null;
-  direction: SortDirection;
-}
-
-// Predefined column order - moved created_at to the first position
-const PREDEFINED_COLUMN_ORDER = [
-  'created_at',
-  'episode_interview_file_name',
-  'episode_interview_file',
-  'id',
-  'episode_number',
-  'source_document_file_name',
-  'source_document',
-  'episode_interview_full_script',
-  'episode_interview_script_1',
-  'episode_interview_script_2',
-  'episode_interview_script_3',
-  'episode_interview_script_4',
-  'episode_interview_script_status',
-  'episode_text_files_status', // New column
-  'podcast_status', // New column
-  'episode_titles',
-  'episode_description',
-  'episode_intro_transcript',
-  'linkedin_post_copy',
-  'x_post_copy',
-  'podcast_excerpt',
-  'show_notes',
-  'episode_intro_audio_file',
-  'master_audio_file',
-  'episode_cover_art',
-  'scheduled_date',
-  'unix_timestamp',
-  'publish_date',
-  'publish_time'
-];
-
 // Helper to check if a string is a valid URL
 const isValidUrl = (string: string): boolean => {
   try {
@@ -84,24 +71,31 @@ const isValidUrl = (string: string): boolean => {
   }
 };
 
-// Format date for display
+// Format date for display in the show's time zone
 const formatDate = (dateString: string | undefined): string => {
   if (!dateString) return '';
-  try {
-    const date = new Date(dateString);
-    return date.toLocaleString();
-  } catch (e) {
-    return dateString || '';
-  }
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? dateString : formatInTimeZone(date, config.showTimeZone);
+};
+
+// The same moment in the viewer's own time zone, shown on hover
+const formatViewerDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? '' : `${formatInTimeZone(date, getViewerTimeZone())} your time`;
 };
 
 // Render cell content with clickable links if applicable
-const CellContent = ({ value, column }: { value: string | number | null | undefined, column: string }) => {
+const CellContent = ({ value, column }: { value: unknown, column: string }) => {
   if (value === null || value === undefined) return <span>null</span>;
   
   // Format date for created_at column
   if (column === 'created_at') {
-    return <span>{formatDate(String(value))}</span>;
+    return <span title={formatViewerDate(String(value))}>{formatDate(String(value))}</span>;
+  }
+  
+  // Render status columns as badges so invalid values stand out
+  if (column in STATUS_COLUMNS) {
+    return <StatusBadge column={column as StatusColumn} status={String(value)} />;
   }
   
   const stringValue = String(value);
@@ -124,165 +118,177 @@ const CellContent = ({ value, column }: { value: string | number | null | undefi
   return <span>{typeof value === 'object' ? JSON.stringify(value) : stringValue}</span>;
 };
 
-// Compare function for sorting
-const compareValues = (a: any, b: any, isAsc: boolean = true): number => {
-  // Handle null/undefined values
-  if (a === null || a === undefined) return isAsc ? -1 : 1;
-  if (b === null || b === undefined) return isAsc ? 1 : -1;
-  
-  // Handle numbers
-  if (!isNaN(Number(a)) && !isNaN(Number(b))) {
-    return isAsc ? Number(a) - Number(b) : Number(b) - Number(a);
-  }
-  
-  // Handle dates
-  const dateA = new Date(a);
-  const dateB = new Date(b);
-  if (!isNaN(dateA.getTime()) && !isNaN(dateB.getTime())) {
-    return isAsc ? dateA.getTime() - dateB.getTime() : dateB.getTime() - dateA.getTime();
-  }
-  
-  // Handle strings
-  const strA = String(a).toLowerCase();
-  const strB = String(b).toLowerCase();
-  return isAsc ? strA.localeCompare(strB) : strB.localeCompare(strA);
-};
-
 export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
-  const [records, setRecords] = useState<AutoworkflowRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editedRecord, setEditedRecord] = useState<AutoworkflowRecord | null>(null);
+  // The row as it was when editing started, and the values typed since
+  const [editBase, setEditBase] = useState<Episode | null>(null);
+  const [editedFields, setEditedFields] = useState<EditedFields>({});
+  // Validation problems of the typed values, keyed by column
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  // A save that collided with someone else's changes, waiting for the editor to merge
+  const [pendingMerge, setPendingMerge] = useState<{ current: Episode; changes: EpisodeUpdate; conflicts: EditConflict[] } | null>(null);
   const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
-  const [availableColumns, setAvailableColumns] = useState<string[]>([]);
-  const [sortState, setSortState] = useState<SortState>({ column: null, direction: null });
+  // Rows checked for bulk actions; separate from the selected row, which drives the form
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  // The sort lives in the URL, so sorted views can be shared and survive a reload
+  const { route, pathname, search, navigate } = useRoute();
+  const [sortState, setSortState] = useState<EpisodeSort>(() => parseSortParams(search));
+  const [filters, setFilters] = useState<EpisodeFilters>(EMPTY_FILTERS);
+  const [queryFilters, setQueryFilters] = useState<EpisodeFilters>(EMPTY_FILTERS);
+  // Scroll position of the table, to work out which rows are in view
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Measured heights of the rendered rows by episode id
+  const [rowHeights, setRowHeights] = useState<Record<string, number>>({});
+  const [rowObserver] = useState(() => new ResizeObserver((entries) => {
+    setRowHeights((prev) => {
+      let next = prev;
+      entries.forEach((entry) => {
+        const id = (entry.target as HTMLElement).dataset.episodeId;
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (id && height > 0 && prev[id] !== height) {
+          next = next === prev ? { ...prev } : next;
+          next[id] = height;
+        }
+      });
+      return next;
+    });
+  }));
+  const observedRows = useRef(new Map<string, Element>());
   const { toast } = useToast();
+  
+  // Only admins may delete episodes
+  const { user } = useAuth();
+  const canDelete = can(user, 'delete');
+  const { layout: columnLayout, setLayout: setColumnLayout, resetLayout: resetColumnLayout } = useColumnLayout(user?.id);
+  // Width of the column being resized, applied live and saved when the mouse is released
+  const [resizing, setResizing] = useState<{ column: string; width: number } | null>(null);
+  
+  // Episode whose change history is open, and whether the trash and purged episodes drawers are open
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isDeletedOpen, setIsDeletedOpen] = useState(false);
 
-  // Fetch data from Supabase
-  const fetchData = async (showLoading = true) => {
-    try {
-      if (showLoading) {
-        setIsLoading(true);
-      } else {
-        setIsRefreshing(true);
-      }
-      setError(null);
-      
-      // Fetch the records first
-      const { data, error } = await supabase
-        .from('autoworkflow')
-        .select('*');
-      
-      if (error) {
-        throw new Error(error.message);
-      }
-      
-      // Set the records
-      setRecords(data || []);
-      
-      // If we have records, extract available columns
-      if (data && data.length > 0) {
-        // Get all columns from the first record
-        const allColumns = Object.keys(data[0]);
-        setAvailableColumns(allColumns);
-      }
-      
-      // Dispatch a custom event to notify other components that refresh was clicked
-      window.dispatchEvent(new CustomEvent('episodes-list-refresh'));
-    } catch (err) {
-      console.error('Error fetching data:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch data');
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
+  // Keep the sort while another page is shown, since the dashboard stays mounted behind it
+  useEffect(() => {
+    if (route.name === 'dashboard') {
+      setSortState(parseSortParams(search));
     }
-  };
+  }, [route.name, search]);
 
-  // Set up real-time subscription and auto-refresh
   useEffect(() => {
-    // Initial data fetch
-    fetchData();
-
-    // Subscribe to changes
-    const subscription = supabase
-      .channel('autoworkflow-changes')
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
-        table: 'autoworkflow' 
-      }, (payload) => {
-        console.log('Change received!', payload);
-        fetchData(false);
-      })
-      .subscribe();
-
-    // Listen for auto-refresh events from PodcastForm
-    const handleAutoRefresh = () => {
-      fetchData(false);
-    };
-
-    // Add event listener for auto-refresh
-    window.addEventListener('episodes-list-auto-refresh', handleAutoRefresh);
-
-    // Cleanup subscription and event listener on unmount
-    return () => {
-      subscription.unsubscribe();
-      window.removeEventListener('episodes-list-auto-refresh', handleAutoRefresh);
-    };
-  }, []);
+    const timeout = window.setTimeout(() => setQueryFilters(filters), FILTER_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [filters]);
+
+  // Filtering and sorting happen on the server, which sends the rows a page at a time
+  const query = useMemo<EpisodeQuery>(() => ({
+    filters: queryFilters,
+    sort: sortState,
+  }), [queryFilters, sortState]);
+  const {
+    episodes: records,
+    matchingCount,
+    totalCount,
+    hasLoaded,
+    isLoading: isFetching,
+    error,
+    hasMore,
+    removedIds,
+    refresh,
+    loadMore,
+    upsertEpisode: upsertRow,
+    removeEpisode: removeRow,
+  } = useEpisodePage(query);
+
+  const historyEpisode = historyId ? records.find((record) => record.id === historyId) || null : null;
+
+  // Show the loading state only until the first page has loaded
+  const isLoading = !hasLoaded && !error;
+
+  // Get all columns from the first record, or the known columns while no rows match
+  const availableColumns = useMemo(() => {
+    return records.length > 0 ? Object.keys(records[0]) : [...EPISODE_COLUMNS];
+  }, [records]);
 
   // Start editing a record
-  const handleEdit = (record: AutoworkflowRecord, e: React.MouseEvent) => {
+  const handleEdit = (record: Episode, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row click when clicking edit button
     setEditingId(record.id);
-    setEditedRecord({ ...record });
+    setEditBase(record);
+    setEditedFields({});
+    setEditErrors({});
+  };
+
+  const finishEditing = () => {
+    setEditingId(null);
+    setEditBase(null);
+    setEditedFields({});
+    setEditErrors({});
+    setPendingMerge(null);
   };
 
   // Cancel editing
   const handleCancelEdit = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row click when clicking cancel button
-    setEditingId(null);
-    setEditedRecord(null);
+    finishEditing();
   };
 
   // Handle input change for editing
   const handleEditChange = (key: string, value: string) => {
-    if (editedRecord) {
-      setEditedRecord({
-        ...editedRecord,
-        [key]: value
-      });
+    // Changing one scheduling column fills in the others from the same instant
+    const changed: EditedFields = isScheduleColumn(key) && editBase
+      ? deriveScheduleFields(key, value, toScheduleFields(editBase, editedFields))
+      : { [key]: value };
+    
+    setEditedFields({
+      ...editedFields,
+      ...changed
+    });
+    
+    // The problem is re-checked on save, so hide it while the value is being fixed
+    if (Object.keys(changed).some((column) => editErrors[column])) {
+      const remaining = { ...editErrors };
+      Object.keys(changed).forEach((column) => delete remaining[column]);
+      setEditErrors(remaining);
     }
   };
+  
+  // Problems with the scheduling columns once the changes are applied; rows whose schedule isn't touched aren't checked
+  const checkSchedule = (base: Episode, changes: EpisodeUpdate): Record<string, string> => {
+    if (!Object.keys(changes).some(isScheduleColumn)) return {};
+    return findScheduleMismatches({ ...base, ...changes });
+  };
 
-  // Save edited record to Supabase
-  const handleSaveEdit = async (e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent row click when clicking save button
-    if (!editedRecord) return;
-    
+  // Write only the changed columns, provided the row is still at the version the editor started from
+  const saveChanges = async (base: Episode, changes: EpisodeUpdate) => {
     try {
-      const { error } = await supabase
-        .from('autoworkflow')
-        .update(editedRecord)
-        .eq('id', editedRecord.id);
-      
-      if (error) throw new Error(error.message);
+      const updatedRecord = await updateEpisode(base.id, changes, base.version);
       
-      // Update local state
-      setRecords(records.map(record => 
-        record.id === editedRecord.id ? editedRecord : record
-      ));
+      // Update the list and the shared store without waiting for the realtime event
+      upsertRow(updatedRecord);
+      upsertEpisode(updatedRecord);
       
-      setEditingId(null);
-      setEditedRecord(null);
+      finishEditing();
       
       toast({
         title: "Record updated",
         description: "The record has been successfully updated.",
       });
     } catch (err) {
+      if (err instanceof EpisodeConflictError) {
+        upsertRow(err.current);
+        upsertEpisode(err.current);
+        
+        // Changes to other columns can't be clobbered since only the edited columns are sent, so just retry
+        const conflicts = findEditConflicts(base, err.current, changes);
+        if (conflicts.length === 0) {
+          await saveChanges(err.current, changes);
+        } else {
+          setPendingMerge({ current: err.current, changes, conflicts });
+        }
+        return;
+      }
+      
       console.error('Error updating record:', err);
       toast({
         title: "Update failed",
@@ -292,45 +298,117 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
     }
   };
 
-  // Delete a record from Supabase
+  // Save edited record to Supabase
+  const handleSaveEdit = async (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent row click when clicking save button
+    if (!editBase) return;
+    
+    const changed = diffEditedFields(editBase, editedFields);
+    if (Object.keys(changed).length === 0) {
+      finishEditing();
+      return;
+    }
+    
+    // Check every typed value against its column type before anything is sent
+    const { changes, errors } = parseEditorValues(changed);
+    if (Object.keys(errors).length > 0) {
+      setEditErrors(errors);
+      toast({
+        title: "Invalid values",
+        description: `Please fix ${Object.keys(errors).join(", ")} before saving.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const mismatches = checkSchedule(editBase, changes);
+    if (Object.keys(mismatches).length > 0) {
+      setEditErrors(mismatches);
+      toast({
+        title: "Schedule doesn't add up",
+        description: `The publish date, time and timestamp must describe the same moment in ${config.showTimeZone}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    await saveChanges(editBase, changes);
+  };
+
+  // Save again on top of the latest version, keeping the chosen value of each conflicting column
+  const handleResolveMerge = async (choices: Record<string, ConflictChoice>) => {
+    if (!pendingMerge) return;
+    
+    const { current, changes } = pendingMerge;
+    setPendingMerge(null);
+    setEditBase(current);
+    
+    const resolved = resolveEditConflicts(changes, choices);
+    if (Object.keys(resolved).length === 0) {
+      finishEditing();
+      return;
+    }
+    
+    // Mixing my schedule columns with theirs can leave them describing different moments
+    const mismatches = checkSchedule(current, resolved);
+    if (Object.keys(mismatches).length > 0) {
+      setEditErrors(mismatches);
+      toast({
+        title: "Schedule doesn't add up",
+        description: "Keep the same side for all the scheduling columns, or fix them in the editor.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    await saveChanges(current, resolved);
+  };
+
+  // Go back to the editor, now based on the latest version
+  const handleCancelMerge = () => {
+    if (!pendingMerge) return;
+    
+    setEditBase(pendingMerge.current);
+    setPendingMerge(null);
+  };
+
+  // If one of the given records is selected, clear the selection so the form resets
+  const clearSelectionIfRemoved = useCallback((ids: string[]) => {
+    if (selectedRecordId && ids.includes(selectedRecordId)) {
+      setSelectedRecordId(null);
+      if (onRecordSelect) {
+        onRecordSelect(EMPTY_SCRIPT_LINKS, undefined);
+      }
+    }
+  }, [selectedRecordId, onRecordSelect]);
+  
+  // The selected record can also disappear because someone else trashed it
+  useEffect(() => {
+    if (selectedRecordId && removedIds.includes(selectedRecordId)) {
+      clearSelectionIfRemoved([selectedRecordId]);
+    }
+  }, [removedIds, selectedRecordId, clearSelectionIfRemoved]);
+
+  // Move a record to the trash
   const handleDelete = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row click when clicking delete button
-    if (!confirm("Are you sure you want to delete this record? This action cannot be undone.")) {
+    if (!confirm("Move this record to the trash? It can be restored from the trash until it is purged.")) {
       return;
     }
     
     try {
-      const { error } = await supabase
-        .from('autoworkflow')
-        .delete()
-        .eq('id', id);
+      await trashEpisode(id);
       
-      if (error) throw new Error(error.message);
+      // Update the list and the shared store without waiting for the realtime event
+      removeRow(id);
+      removeEpisode(id);
       
-      // Update local state
-      setRecords(records.filter(record => record.id !== id));
-      
-      // If the deleted record was selected, clear the selection
-      if (selectedRecordId === id) {
-        setSelectedRecordId(null);
-        if (onRecordSelect) {
-          onRecordSelect({
-            episode_interview_script_1: null,
-            episode_interview_script_2: null,
-            episode_interview_script_3: null,
-            episode_interview_script_4: null,
-            episode_interview_full_script: null,
-            episode_interview_file: null,
-            episode_interview_script_status: undefined,
-            episode_text_files_status: undefined, // New column
-            podcast_status: undefined // New column
-          }, undefined);
-        }
-      }
+      // If the trashed record was selected, clear the selection
+      clearSelectionIfRemoved([id]);
       
       toast({
-        title: "Record deleted",
-        description: "The record has been successfully deleted.",
+        title: "Record moved to trash",
+        description: "The record can be restored from the trash.",
       });
     } catch (err) {
       console.error('Error deleting record:', err);
@@ -343,13 +421,13 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
   };
 
   // Handle selecting or unselecting a record to view its scripts
-  const handleViewScripts = (record: AutoworkflowRecord, e: React.MouseEvent) => {
+  const handleViewScripts = (record: Episode, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row click when clicking view button
     selectRecord(record);
   };
 
   // Handle row click to select a record
-  const handleRowClick = (record: AutoworkflowRecord) => {
+  const handleRowClick = (record: Episode) => {
     // Don't do anything if we're currently editing
     if (editingId === record.id) return;
     
@@ -357,103 +435,203 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
   };
 
   // Common function to select a record
-  const selectRecord = (record: AutoworkflowRecord) => {
+  const selectRecord = (record: Episode) => {
     // If the record is already selected, unselect it
     if (selectedRecordId === record.id) {
       setSelectedRecordId(null);
       
       if (onRecordSelect) {
-        onRecordSelect({
-          episode_interview_script_1: null,
-          episode_interview_script_2: null,
-          episode_interview_script_3: null,
-          episode_interview_script_4: null,
-          episode_interview_full_script: null,
-          episode_interview_file: null,
-          episode_interview_script_status: undefined,
-          episode_text_files_status: undefined, // New column
-          podcast_status: undefined // New column
-        }, undefined);
+        onRecordSelect(EMPTY_SCRIPT_LINKS, undefined);
       }
     } else {
       // Otherwise, select the record
       setSelectedRecordId(record.id);
       
       if (onRecordSelect) {
-        onRecordSelect({
-          episode_interview_script_1: record.episode_interview_script_1 || null,
-          episode_interview_script_2: record.episode_interview_script_2 || null,
-          episode_interview_script_3: record.episode_interview_script_3 || null,
-          episode_interview_script_4: record.episode_interview_script_4 || null,
-          episode_interview_full_script: record.episode_interview_full_script || null,
-          episode_interview_file: record.episode_interview_file || null,
-          episode_interview_script_status: record.episode_interview_script_status,
-          episode_text_files_status: record.episode_text_files_status, // New column
-          podcast_status: record.podcast_status // New column
-        }, record.episode_interview_file_name);
+        onRecordSelect(toScriptLinks(record), record.episode_interview_file_name || undefined);
       }
     }
   };
 
-  // Handle column sort
-  const handleSort = (column: string) => {
-    setSortState(prevState => {
-      // If clicking on the same column, cycle through sort directions: null -> asc -> desc -> null
-      if (prevState.column === column) {
-        if (prevState.direction === null) return { column, direction: 'asc' };
-        if (prevState.direction === 'asc') return { column, direction: 'desc' };
-        return { column: null, direction: null }; // Reset sort
-      }
-      // If clicking on a different column, start with ascending sort
-      return { column, direction: 'asc' };
-    });
+  const updateSort = (next: EpisodeSort) => {
+    navigate(`${pathname}${toSortSearch(search, next)}`, { replace: true });
   };
 
-  // Get ordered columns based on the predefined order and available columns
+  // Handle column sort; shift-click adds the column to the current sort
+  const handleSort = (column: string, e: React.MouseEvent) => {
+    updateSort(toggleSortKey(sortState, column, e.shiftKey));
+  };
+
+  // Visible columns in the user's order, falling back to the predefined order for columns the layout doesn't know
   const orderedColumns = useMemo(() => {
-    if (records.length === 0) return [];
-    
-    // Filter the predefined column order to only include columns that exist in the data
-    const filteredColumns = PREDEFINED_COLUMN_ORDER.filter(col => 
-      availableColumns.includes(col)
-    );
-    
-    // Add any columns that exist in the data but aren't in the predefined order
-    const remainingColumns = availableColumns.filter(col => 
-      !PREDEFINED_COLUMN_ORDER.includes(col)
-    ).sort();
-    
-    return [...filteredColumns, ...remainingColumns];
-  }, [records, availableColumns]);
+    return getVisibleColumns(columnLayout, availableColumns);
+  }, [columnLayout, availableColumns]);
+
+  // Drag a header edge to resize its column
+  const handleResizeStart = (column: string, e: React.MouseEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const header = e.currentTarget.parentElement;
+    const startX = e.clientX;
+    const startWidth = header ? header.getBoundingClientRect().width : MIN_COLUMN_WIDTH;
+    let width = startWidth;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX);
+      setResizing({ column, width });
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      setResizing(null);
+      setColumnLayout(setColumnWidth(columnLayout, column, width));
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Fixed width of a resized column
+  const getColumnStyle = (column: string): React.CSSProperties | undefined => {
+    const width = resizing?.column === column ? resizing.width : columnLayout.widths[column];
+    return width ? { width, minWidth: width, maxWidth: width } : undefined;
+  };
+
+  // The pinned episode name sticks to the left edge while the table scrolls sideways
+  const isPinnedColumn = (column: string) => columnLayout.pinned && column === PINNABLE_COLUMN;
 
-  // Sort records based on current sort state
-  const sortedRecords = useMemo(() => {
-    if (!sortState.column || !sortState.direction) {
-      return records;
+  // Top edge of every row and the bottom edge of the last one, from the measured or estimated heights
+  const rowOffsets = useMemo(() => {
+    const offsets = [0];
+    records.forEach((record, index) => {
+      offsets.push(offsets[index] + (rowHeights[record.id] ?? ESTIMATED_ROW_HEIGHT));
+    });
+    return offsets;
+  }, [records, rowHeights]);
+
+  // Index of the row at a distance from the top of the table
+  const findRowAt = (offset: number): number => {
+    let low = 0;
+    let high = records.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (rowOffsets[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
     }
-    
-    return [...records].sort((a, b) => {
-      return compareValues(a[sortState.column!], b[sortState.column!], sortState.direction === 'asc');
+    return low;
+  };
+
+  // Only the rows in view are rendered; spacer rows stand in for the others
+  const firstVisibleRow = Math.max(0, findRowAt(viewport.scrollTop) - OVERSCAN_ROWS);
+  const lastVisibleRow = Math.min(records.length, findRowAt(viewport.scrollTop + viewport.height) + 1 + OVERSCAN_ROWS);
+  const visibleRecords = records.slice(firstVisibleRow, lastVisibleRow);
+
+  // Measure rendered rows, and again whenever one changes size
+  const observeRow = useCallback((element: HTMLTableRowElement | null) => {
+    const episodeId = element?.dataset.episodeId;
+    if (!element || !episodeId) return;
+
+    const previous = observedRows.current.get(episodeId);
+    if (previous === element) return;
+    if (previous) rowObserver.unobserve(previous);
+    observedRows.current.set(episodeId, element);
+    rowObserver.observe(element);
+  }, [rowObserver]);
+
+  useEffect(() => {
+    observedRows.current.forEach((element) => rowObserver.observe(element));
+    return () => rowObserver.disconnect();
+  }, [rowObserver]);
+
+  // Rows scrolled out of view unmount without telling observeRow, so let go of them once they're gone
+  const visibleIdsKey = visibleRecords.map((record) => record.id).join(',');
+  useEffect(() => {
+    const visibleIds = new Set(visibleIdsKey.split(','));
+    observedRows.current.forEach((element, episodeId) => {
+      if (visibleIds.has(episodeId) && element.isConnected) return;
+      rowObserver.unobserve(element);
+      observedRows.current.delete(episodeId);
     });
-  }, [records, sortState]);
+  }, [visibleIdsKey, rowObserver]);
+
+  const checkedRecords = records.filter((record) => checkedIds.includes(record.id));
+  const isAllChecked = records.length > 0 && checkedRecords.length === records.length;
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds((current) => current.includes(id) ? current.filter((checked) => checked !== id) : [...current, id]);
+  };
+
+  // The header checkbox covers the rows loaded so far
+  const toggleAllChecked = () => {
+    setCheckedIds(isAllChecked ? [] : records.map((record) => record.id));
+  };
+
+  // Keep the list and the shared store in step with rows changed by a bulk action
+  const handleBulkUpdated = (episode: Episode) => {
+    upsertRow(episode);
+    upsertEpisode(episode);
+  };
+
+  const handleBulkRemoved = (episodeId: string) => {
+    removeRow(episodeId);
+    removeEpisode(episodeId);
+    clearSelectionIfRemoved([episodeId]);
+  };
+
+  // Fetch the next page once the user scrolls close to the last loaded row
+  const isNearEnd = lastVisibleRow >= records.length - OVERSCAN_ROWS;
+  useEffect(() => {
+    if (hasLoaded && hasMore && !isFetching && !error && isNearEnd) {
+      loadMore();
+    }
+  }, [hasLoaded, hasMore, isFetching, error, isNearEnd, loadMore]);
+
+  const handleTableScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    setViewport({ scrollTop: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight });
+  };
 
-  // Render sort indicator
+  // Measure the table's height once it is rendered, before the first scroll
+  const measureTable = useCallback((element: HTMLDivElement | null) => {
+    if (element) {
+      setViewport((prev) => (prev.height === element.clientHeight ? prev : { ...prev, height: element.clientHeight }));
+    }
+  }, []);
+
+  // Render sort indicator, with the column's position when sorting by several columns
   const renderSortIndicator = (column: string) => {
-    if (sortState.column !== column) {
+    const index = sortState.keys.findIndex((key) => key.column === column);
+    if (index === -1) {
       return <ArrowUpDown className="h-3 w-3 ml-1 inline opacity-50" />;
     }
     
-    if (sortState.direction === 'asc') {
-      return <ArrowUp className="h-3 w-3 ml-1 inline" />;
-    }
+    const priority = sortState.keys.length > 1 ? <span className="ml-0.5 text-[10px]">{index + 1}</span> : null;
     
-    if (sortState.direction === 'desc') {
-      return <ArrowDown className="h-3 w-3 ml-1 inline" />;
+    if (sortState.keys[index].direction === 'asc') {
+      return <><ArrowUp className="h-3 w-3 ml-1 inline" />{priority}</>;
     }
     
-    return null;
+    return <><ArrowDown className="h-3 w-3 ml-1 inline" />{priority}</>;
   };
 
+  // Open the trash and the purged episodes, shown above the table and the empty state
+  const deletedEpisodesButton = (
+    <div className="flex space-x-1">
+      <Button variant="ghost" size="sm" onClick={() => setIsTrashOpen(true)}>
+        <Trash2 className="h-4 w-4 mr-1" />
+        Trash
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setIsDeletedOpen(true)}>
+        <History className="h-4 w-4 mr-1" />
+        Purged
+      </Button>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
@@ -463,7 +641,7 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
     );
   }
 
-  if (error) {
+  if (error && !hasLoaded) {
     return (
       <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 my-4">
         <div className="flex items-start">
@@ -475,7 +653,7 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
               variant="outline" 
               size="sm" 
               className="mt-3"
-              onClick={() => fetchData()}
+              onClick={() => refresh()}
             >
               Retry
             </Button>
@@ -486,13 +664,14 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
   }
 
   // Display when no records are found
-  if (records.length === 0) {
+  if (totalCount === 0) {
     return (
       <div className="space-y-4">
-        <div className="flex justify-between">
+        <div className="flex justify-between items-center">
           <p className="text-sm text-gray-500 dark:text-gray-400">
             Episodes list is updated automatically
           </p>
+          {deletedEpisodesButton}
         </div>
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-8 text-center">
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No records found</h3>
@@ -500,6 +679,8 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
             The autoworkflow table is currently empty.
           </p>
         </div>
+        <TrashDrawer isOpen={isTrashOpen} onClose={() => setIsTrashOpen(false)} />
+        <DeletedEpisodesDrawer isOpen={isDeletedOpen} onClose={() => setIsDeletedOpen(false)} />
       </div>
     );
   }
@@ -511,114 +692,252 @@ export function EpisodesList({ onRecordSelect }: EpisodesListProps) {
         <p className="text-sm text-gray-500 dark:text-gray-400">
           Episodes list is updated automatically
         </p>
+        <div className="flex items-center space-x-2">
+          <select
+            value={sortState.nulls}
+            onChange={(e) => updateSort({ ...sortState, nulls: e.target.value as NullPlacement })}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-900 dark:text-gray-100"
+            title="Where empty values go when sorting"
+          >
+            <option value="first">Empty values first</option>
+            <option value="last">Empty values last</option>
+          </select>
+          <ColumnChooser
+            layout={columnLayout}
+            availableColumns={availableColumns}
+            onChange={setColumnLayout}
+            onReset={resetColumnLayout}
+          />
+          {deletedEpisodesButton}
+        </div>
       </div>
-      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
-        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-          <thead className="bg-gray-50 dark:bg-gray-800">
-            <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                Actions
-              </th>
-              {orderedColumns.map((column) => (
-                <th 
-                  key={column}
-                  scope="col" 
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
-                  onClick={() => handleSort(column)}
-                >
-                  <div className="flex items-center">
-                    {column}
-                    {renderSortIndicator(column)}
-                  </div>
+      <EpisodeFiltersBar
+        filters={filters}
+        onChange={setFilters}
+        shownCount={matchingCount}
+        totalCount={totalCount}
+      />
+      <BulkActionsBar
+        episodes={checkedRecords}
+        columns={orderedColumns}
+        onEpisodeUpdated={handleBulkUpdated}
+        onEpisodeRemoved={handleBulkRemoved}
+        onFinished={(succeededIds) => setCheckedIds((current) => current.filter((id) => !succeededIds.includes(id)))}
+        onClearSelection={() => setCheckedIds([])}
+      />
+      {error && (
+        <div className="flex items-center justify-between bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg px-4 py-2 text-sm text-red-700 dark:text-red-400">
+          <span>Error loading data: {error}</span>
+          <Button variant="outline" size="sm" onClick={() => refresh()}>
+            Retry
+          </Button>
+        </div>
+      )}
+      {matchingCount === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-8 text-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No matching episodes</h3>
+          <p className="text-gray-500 dark:text-gray-400 mb-4">
+            No episodes match the current filters.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+            Clear Filters
+          </Button>
+        </div>
+      ) : (
+        <div
+          ref={measureTable}
+          className="overflow-auto max-h-[70vh] border border-gray-200 dark:border-gray-700 rounded-lg"
+          onScroll={handleTableScroll}
+        >
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="sticky top-0 z-20 bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="pl-4 pr-2 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={isAllChecked}
+                    onChange={toggleAllChecked}
+                    title="Select all loaded episodes"
+                  />
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Stage
                 </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-800">
-            {sortedRecords.map((record) => (
-              <tr 
-                key={record.id}
-                className={`${selectedRecordId === record.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''} ${editingId !== record.id ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800' : ''}`}
-                onClick={() => editingId !== record.id && handleRowClick(record)}
-              >
-                <td className="px-6 py-4 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
-                  <div className="flex space-x-2">
-                    {editingId === record.id ? (
-                      <>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={(e) => handleSaveEdit(e)}
-                          className="p-1 h-8 w-8"
-                          title="Save"
-                        >
-                          <Save className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={(e) => handleCancelEdit(e)}
-                          className="p-1 h-8 w-8"
-                          title="Cancel"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </>
-                    ) : (
-                      <>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={(e) => handleViewScripts(record, e)}
-                          className={`p-1 h-8 w-8 ${selectedRecordId === record.id ? 'bg-blue-100 dark:bg-blue-800' : ''}`}
-                          title={selectedRecordId === record.id ? "Unselect" : "View Scripts"}
-                        >
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={(e) => handleEdit(record, e)}
-                          className="p-1 h-8 w-8"
-                          title="Edit"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={(e) => handleDelete(record.id, e)}
-                          className="p-1 h-8 w-8 text-red-500 hover:text-red-700"
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </>
-                    )}
-                  </div>
-                </td>
                 {orderedColumns.map((column) => (
-                  <td 
-                    key={`${record.id}-${column}`} 
-                    className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 overflow-hidden text-ellipsis max-w-xs"
+                  <th 
+                    key={column}
+                    scope="col" 
+                    className={`relative px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider ${isSortableColumn(column) ? 'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700' : ''} ${isPinnedColumn(column) ? 'sticky left-0 z-10 bg-gray-50 dark:bg-gray-800' : ''}`}
+                    style={getColumnStyle(column)}
+                    onClick={(e) => handleSort(column, e)}
+                    title={isSortableColumn(column) ? 'Click to sort, shift-click to sort by several columns' : undefined}
                   >
-                    {editingId === record.id && editedRecord ? (
-                      <Input
-                        value={editedRecord[column] || ''}
-                        onChange={(e) => handleEditChange(column, e.target.value)}
-                        className="w-full"
-                        onClick={(e) => e.stopPropagation()} // Prevent row click when editing
-                      />
-                    ) : (
-                      <CellContent value={record[column]} column={column} />
-                    )}
-                  </td>
+                    <div className="flex items-center overflow-hidden">
+                      {column}
+                      {renderSortIndicator(column)}
+                    </div>
+                    <span
+                      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400"
+                      onMouseDown={(e) => handleResizeStart(column, e)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  </th>
                 ))}
               </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-800">
+              {firstVisibleRow > 0 && (
+                <tr style={{ height: rowOffsets[firstVisibleRow] }} />
+              )}
+              {visibleRecords.map((record) => (
+                <tr 
+                  key={record.id}
+                  ref={observeRow}
+                  data-episode-id={record.id}
+                  className={`${selectedRecordId === record.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''} ${editingId !== record.id ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800' : ''}`}
+                  onClick={() => editingId !== record.id && handleRowClick(record)}
+                >
+                  <td className="pl-4 pr-2 py-4" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={checkedIds.includes(record.id)}
+                      onChange={() => toggleChecked(record.id)}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex space-x-2">
+                      {editingId === record.id ? (
+                        <>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={(e) => handleSaveEdit(e)}
+                            className="p-1 h-8 w-8"
+                            title="Save"
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={(e) => handleCancelEdit(e)}
+                            className="p-1 h-8 w-8"
+                            title="Cancel"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={(e) => handleViewScripts(record, e)}
+                            className={`p-1 h-8 w-8 ${selectedRecordId === record.id ? 'bg-blue-100 dark:bg-blue-800' : ''}`}
+                            title={selectedRecordId === record.id ? "Unselect" : "View Scripts"}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            asChild
+                            className="p-1 h-8 w-8"
+                            title="Open episode page"
+                          >
+                            <Link to={getEpisodePath(record.id)}>
+                              <Maximize2 className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={() => setHistoryId(record.id)}
+                            className="p-1 h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={(e) => handleEdit(record, e)}
+                            className="p-1 h-8 w-8"
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {canDelete && (
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={(e) => handleDelete(record.id, e)}
+                              className="p-1 h-8 w-8 text-red-500 hover:text-red-700"
+                              title="Move to trash"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <StageBadge episode={record} />
+                  </td>
+                  {orderedColumns.map((column) => (
+                    <td 
+                      key={`${record.id}-${column}`} 
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 overflow-hidden text-ellipsis max-w-xs ${isPinnedColumn(column) ? `sticky left-0 z-10 ${selectedRecordId === record.id ? 'bg-blue-50 dark:bg-gray-800' : 'bg-white dark:bg-gray-900'}` : ''}`}
+                      style={getColumnStyle(column)}
+                    >
+                      {editingId === record.id && isEditableColumn(column) ? (
+                        <ColumnEditor
+                          column={column}
+                          // Untouched columns follow the live row, so realtime updates show up while editing
+                          value={column in editedFields ? editedFields[column] : formatEditorValue(column, getEpisodeValue(record, column))}
+                          error={editErrors[column]}
+                          onChange={(value) => handleEditChange(column, value)}
+                        />
+                      ) : (
+                        <CellContent value={getEpisodeValue(record, column)} column={column} />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {lastVisibleRow < records.length && (
+                <tr style={{ height: rowOffsets[records.length] - rowOffsets[lastVisibleRow] }} />
+              )}
+              {isFetching && (
+                <tr>
+                  <td colSpan={orderedColumns.length + 3} className="px-6 py-4">
+                    <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      Loading episodes...
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
+      <EpisodeHistoryDrawer episode={historyEpisode} onClose={() => setHistoryId(null)} />
+      <TrashDrawer isOpen={isTrashOpen} onClose={() => setIsTrashOpen(false)} />
+      <DeletedEpisodesDrawer isOpen={isDeletedOpen} onClose={() => setIsDeletedOpen(false)} />
+      {pendingMerge && (
+        <MergeDialog
+          episodeName={pendingMerge.current.episode_interview_file_name || `Episode ${pendingMerge.current.id}`}
+          conflicts={pendingMerge.conflicts}
+          onResolve={handleResolveMerge}
+          onCancel={handleCancelMerge}
+        />
+      )}
     </div>
   );
 }
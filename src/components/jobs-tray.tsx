@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, Clock, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  getActiveJobs,
+  updateJob,
+  useGenerationJobs,
+  MAX_WAIT_TIME,
+  type GenerationJob,
+} from "@/hooks/use-generation-jobs";
+import { upsertEpisode, useEpisodeQuery } from "@/hooks/use-episodes";
+import {
+  findEpisodeByName,
+  listEpisodesByIds,
+  listEpisodesByName,
+  updateEpisode,
+  type Episode,
+} from "@/lib/episodes";
+
+// Format an elapsed duration as "4m 05s"
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+// Rows created this long before a submission still count as its row, to allow for clock differences
+const CLOCK_SKEW = 5 * 60 * 1000;
+
+// Count how many of the four interview scripts an episode has
+const countScripts = (episode: Partial<Episode>): number =>
+  [
+    episode.episode_interview_script_1,
+    episode.episode_interview_script_2,
+    episode.episode_interview_script_3,
+    episode.episode_interview_script_4,
+  ].filter(Boolean).length;
+
+// The row a job follows: by id once it is known, otherwise the newest row with its name
+// that was created since the submission and isn't followed by another job
+const findJobEpisode = (job: GenerationJob, episodes: Episode[], claimedIds: Set<string>): Episode | null => {
+  if (job.episodeId) return episodes.find((episode) => episode.id === job.episodeId) || null;
+
+  const candidates = episodes.filter(
+    (episode) =>
+      !claimedIds.has(episode.id) &&
+      !episode.deleted_at &&
+      new Date(episode.created_at).getTime() >= job.submittedAt - CLOCK_SKEW
+  );
+  return findEpisodeByName(candidates, job.episodeName);
+};
+
+// Update a job from the latest state of its autoworkflow row, skipping no-op updates
+const applyEpisodeToJob = (job: GenerationJob, episode: Partial<Episode>) => {
+  const episodeId = episode.id || job.episodeId;
+  const scriptsReady = countScripts(episode);
+  const status = episode.episode_interview_script_4 ? "completed" : job.status;
+
+  if (episodeId === job.episodeId && scriptsReady === job.scriptsReady && status === job.status) {
+    return;
+  }
+
+  updateJob(job.id, { episodeId, scriptsReady, status });
+};
+
+// Jobs whose source is being written to their row, so it is only written once
+const recordingSources = new Set<string>();
+
+// Record the original source on a job's row when the workflow didn't fill it in.
+// A failure is kept on the job and shown in the tray until it is retried.
+const recordJobSource = async (job: GenerationJob, episode: Episode) => {
+  if (
+    !job.sourceDocumentFileName ||
+    job.sourceError ||
+    episode.source_document_file_name ||
+    recordingSources.has(job.id)
+  ) {
+    return;
+  }
+
+  recordingSources.add(job.id);
+  try {
+    const updated = await updateEpisode(episode.id, {
+      source_document_file_name: job.sourceDocumentFileName,
+      source_document: job.sourceDocument,
+    });
+    upsertEpisode(updated);
+  } catch (err) {
+    console.error("Error recording source document:", err);
+    updateJob(job.id, {
+      sourceError: err instanceof Error ? err.message : "The source document couldn't be saved.",
+    });
+  } finally {
+    recordingSources.delete(job.id);
+  }
+};
+
+// Flag pending jobs that are taking too long
+const checkTimedOutJobs = () => {
+  getActiveJobs()
+    .filter((job) => job.status === "pending" && Date.now() - job.submittedAt > MAX_WAIT_TIME)
+    .forEach((job) => updateJob(job.id, { status: "timed_out" }));
+};
+
+export function JobsTray() {
+  const { jobs, activeJobs, removeJob } = useGenerationJobs();
+  const [now, setNow] = useState(Date.now());
+  const hasActiveJobs = activeJobs.length > 0;
+
+  // Rows of the active jobs: by id once a job knows its row, otherwise every live row with the job's name
+  const followedIds = useMemo(
+    () => [...new Set(activeJobs.map((job) => job.episodeId).filter((id): id is string => !!id))].sort(),
+    [activeJobs]
+  );
+  const followedNames = useMemo(
+    () => [...new Set(activeJobs.filter((job) => !job.episodeId).map((job) => job.episodeName))].sort(),
+    [activeJobs]
+  );
+  const { episodes } = useEpisodeQuery(
+    hasActiveJobs ? `jobs:${JSON.stringify([followedIds, followedNames])}` : null,
+    async () => (await Promise.all([listEpisodesByIds(followedIds), listEpisodesByName(followedNames)])).flat(),
+    (episode) =>
+      followedIds.includes(episode.id) ||
+      (!episode.deleted_at && followedNames.includes(episode.episode_interview_file_name || ""))
+  );
+
+  // Keep active jobs in step with their rows - this also resumes watching after a page reload
+  useEffect(() => {
+    const claimedIds = new Set(jobs.map((job) => job.episodeId).filter((id): id is string => !!id));
+    activeJobs.forEach((job) => {
+      const episode = findJobEpisode(job, episodes, claimedIds);
+      if (episode) {
+        claimedIds.add(episode.id);
+        applyEpisodeToJob(job, episode);
+        recordJobSource(job, episode);
+      }
+    });
+  }, [episodes, jobs, activeJobs]);
+
+  // Tick every second so elapsed times and timeouts stay current
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const tickInterval = window.setInterval(() => {
+      setNow(Date.now());
+      checkTimedOutJobs();
+    }, 1000);
+    return () => window.clearInterval(tickInterval);
+  }, [hasActiveJobs]);
+
+  if (!hasActiveJobs) return null;
+
+  return (
+    <div className="mb-8 bg-white dark:bg-gray-800 shadow rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center mb-3">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin text-blue-500" />
+        Jobs in progress ({activeJobs.length})
+      </h3>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {activeJobs.map((job) => (
+          <li key={job.id} className="py-2 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{job.episodeName}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {job.fileName ? `${job.fileName} · ` : ""}
+                {job.scriptsReady} of 4 scripts ready
+              </p>
+              {job.sourceError && (
+                <p className="text-xs text-red-600 dark:text-red-400 flex items-center">
+                  <AlertCircle className="w-3 h-3 mr-1" />
+                  Source not saved: {job.sourceError}
+                  <button
+                    type="button"
+                    className="ml-2 underline hover:no-underline"
+                    onClick={() => updateJob(job.id, { sourceError: null })}
+                  >
+                    Retry
+                  </button>
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <span
+                className={`inline-flex items-center text-xs font-medium ${
+                  job.status === "timed_out"
+                    ? "text-red-600 dark:text-red-400"
+                    : "text-gray-600 dark:text-gray-300"
+                }`}
+                title={job.status === "timed_out" ? "This job is taking longer than expected" : undefined}
+              >
+                <Clock className="w-3 h-3 mr-1" />
+                {formatElapsed(now - job.submittedAt)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="p-1 h-7 w-7"
+                onClick={() => removeJob(job.id)}
+                title="Stop tracking this job"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
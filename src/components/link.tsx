@@ -0,0 +1,20 @@
+import * as React from "react";
+import { navigate } from "@/hooks/use-route";
+
+export interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+// Anchor for in-app pages; plain clicks navigate without a reload, while modified clicks still open a new tab
+export function Link({ to, onClick, target, ...props }: LinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || target === "_blank") return;
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return <a href={to} target={target} onClick={handleClick} {...props} />;
+}
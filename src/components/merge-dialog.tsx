@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { GitMerge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toEditableValue, type ConflictChoice, type EditConflict } from "@/lib/episode-edits";
+
+// Longest value shown in full (in characters)
+const MAX_VALUE_LENGTH = 200;
+
+const formatValue = (value: unknown): string => {
+  const text = toEditableValue(value);
+  if (!text) return "empty";
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+interface MergeDialogProps {
+  episodeName: string;
+  conflicts: EditConflict[];
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+// Shown when a save collides with someone else's change to the same columns
+export function MergeDialog({ episodeName, conflicts, onResolve, onCancel }: MergeDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  // Default to keeping the editor's values whenever a new set of conflicts comes in
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map((conflict) => [conflict.column, "mine" as ConflictChoice])));
+  }, [conflicts]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center mb-2">
+          <GitMerge className="h-5 w-5 mr-2" />
+          Resolve Conflicting Changes
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Someone else changed {episodeName} while you were editing it. Your other changes will be kept; choose which
+          value to keep for each column below.
+        </p>
+
+        <div className="space-y-4">
+          {conflicts.map((conflict) => (
+            <div key={conflict.column} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <p className="font-mono text-sm text-gray-900 dark:text-white mb-2">{conflict.column}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 break-words">
+                Before: {formatValue(conflict.base)}
+              </p>
+              {(["theirs", "mine"] as ConflictChoice[]).map((choice) => (
+                <label key={choice} className="flex items-start text-sm text-gray-700 dark:text-gray-300 mb-1">
+                  <input
+                    type="radio"
+                    className="mt-1 mr-2"
+                    name={`merge-${conflict.column}`}
+                    checked={choices[conflict.column] === choice}
+                    onChange={() => setChoices((current) => ({ ...current, [conflict.column]: choice }))}
+                  />
+                  <span className="break-words min-w-0">
+                    <span className="font-medium">{choice === "mine" ? "Yours: " : "Theirs: "}</span>
+                    {formatValue(choice === "mine" ? conflict.mine : conflict.theirs)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="outline" onClick={onCancel}>
+            Keep Editing
+          </Button>
+          <Button onClick={() => onResolve(choices)}>
+            Save Merged
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
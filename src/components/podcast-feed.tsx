@@ -0,0 +1,220 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle, Code, Download, Eye, Loader2, Rss } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Link } from "@/components/link";
+import { useEpisodeQuery } from "@/hooks/use-episodes";
+import { useFeedChannel } from "@/hooks/use-feed-channel";
+import { config } from "@/lib/config";
+import { buildPodcastFeed, isFeedCandidate, listFeedEpisodes, type FeedChannel, type FeedIssue } from "@/lib/podcast-feed";
+import { getEpisodePath } from "@/lib/routes";
+import { formatInTimeZone } from "@/lib/timezone";
+import { downloadTextFile } from "@/lib/utils";
+
+// Text fields of the show details form, in display order
+const CHANNEL_FIELDS: { key: Exclude<keyof FeedChannel, "explicit">; label: string; placeholder?: string }[] = [
+  { key: "title", label: "Show Title" },
+  { key: "link", label: "Website", placeholder: "https://" },
+  { key: "imageUrl", label: "Artwork URL", placeholder: "https://" },
+  { key: "author", label: "Author" },
+  { key: "ownerName", label: "Owner Name" },
+  { key: "ownerEmail", label: "Owner Email" },
+  { key: "language", label: "Language", placeholder: "en-us" },
+  { key: "category", label: "Category", placeholder: "Business" },
+];
+
+const issueLabel = (issue: FeedIssue): string =>
+  issue.episode ? issue.episode.episode_interview_file_name || `Episode ${issue.episode.id}` : "Show details";
+
+// Builds the RSS feed from approved, Completed episodes, with a preview, a validation report and an XML download
+export function PodcastFeed() {
+  const { episodes, hasLoaded } = useEpisodeQuery("feed", listFeedEpisodes, isFeedCandidate);
+  const { channel, updateChannel, resetChannel } = useFeedChannel();
+  const [showXml, setShowXml] = useState(false);
+
+  const feed = useMemo(() => buildPodcastFeed(episodes, channel), [episodes, channel]);
+
+  const errors = feed.issues.filter((issue) => issue.severity === "error");
+  const warnings = feed.issues.filter((issue) => issue.severity === "warning");
+  const channelErrors = errors.filter((issue) => !issue.episode);
+
+  const handleDownload = () => {
+    downloadTextFile("feed.xml", feed.xml, "application/rss+xml;charset=utf-8");
+  };
+
+  if (!hasLoaded) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const renderIssues = (issues: FeedIssue[], isError: boolean) => (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.episode?.id ?? "channel"}-${issue.field}-${index}`}
+          className={`flex items-start text-sm ${isError ? "text-red-700 dark:text-red-400" : "text-amber-700 dark:text-amber-400"}`}
+        >
+          {isError ? (
+            <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          )}
+          <span>
+            {issue.episode ? (
+              <Link to={getEpisodePath(issue.episode.id)} className="font-medium hover:underline">
+                {issueLabel(issue)}
+              </Link>
+            ) : (
+              <span className="font-medium">{issueLabel(issue)}</span>
+            )}{" "}
+            <span className="text-gray-500 dark:text-gray-400">({issue.field})</span>: {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+              <Rss className="w-5 h-5 mr-2" />
+              Podcast Feed
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+              {feed.items.length} episode{feed.items.length === 1 ? "" : "s"} in the feed, built from episodes whose
+              scripts are approved and whose podcast is Completed.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setShowXml(!showXml)}>
+              {showXml ? <Eye className="h-4 w-4 mr-1" /> : <Code className="h-4 w-4 mr-1" />}
+              {showXml ? "Preview" : "View XML"}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleDownload}
+              title={channelErrors.length > 0 ? "Fix the show details before publishing this feed" : undefined}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Download XML
+            </Button>
+          </div>
+        </div>
+
+        <details className="mt-4" open={channelErrors.length > 0}>
+          <summary className="cursor-pointer text-sm font-medium text-gray-900 dark:text-white">Show details</summary>
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+            {CHANNEL_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`feed-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`feed-${field.key}`}
+                  value={channel[field.key]}
+                  placeholder={field.placeholder}
+                  onChange={(e) => updateChannel({ [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="feed-description">Description</Label>
+              <textarea
+                id="feed-description"
+                value={channel.description}
+                rows={3}
+                onChange={(e) => updateChannel({ description: e.target.value })}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={channel.explicit}
+                onChange={(e) => updateChannel({ explicit: e.target.checked })}
+              />
+              <span>Explicit content</span>
+            </label>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={resetChannel}>
+                Reset to Defaults
+              </Button>
+            </div>
+          </div>
+        </details>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Validation</h3>
+        {errors.length === 0 && warnings.length === 0 ? (
+          <p className="flex items-center text-sm text-green-700 dark:text-green-400">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Every approved, Completed episode and the show details are ready to publish.
+          </p>
+        ) : (
+          <>
+            {errors.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white mb-1">
+                  Left out or invalid ({errors.length})
+                </p>
+                {renderIssues(errors, true)}
+              </div>
+            )}
+            {warnings.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white mb-1">Warnings ({warnings.length})</p>
+                {renderIssues(warnings, false)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        {showXml ? (
+          <pre className="text-xs text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 rounded p-4 overflow-auto max-h-[70vh]">
+            {feed.xml}
+          </pre>
+        ) : feed.items.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No episodes are ready for the feed yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {[...feed.items]
+              .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+              .map((item) => (
+                <li key={item.guid} className="py-4 flex gap-4">
+                  <img
+                    src={item.imageUrl || channel.imageUrl}
+                    alt=""
+                    className="h-20 w-20 rounded object-cover flex-shrink-0 bg-gray-100 dark:bg-gray-700"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {item.episodeNumber !== null && `Episode ${item.episodeNumber} · `}
+                      {formatInTimeZone(item.publishedAt, config.showTimeZone)}
+                    </p>
+                    <Link
+                      to={getEpisodePath(item.episode.id)}
+                      className="font-medium text-gray-900 dark:text-white hover:underline"
+                    >
+                      {item.title}
+                    </Link>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-3 whitespace-pre-wrap">
+                      {item.description}
+                    </p>
+                    <audio controls preload="none" src={item.audioUrl} className="w-full max-w-md h-8" />
+                  </div>
+                </li>
+              ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
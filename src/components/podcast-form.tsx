@@ -1,64 +1,68 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Upload, CheckCircle, AlertCircle, FileText, Loader2, RefreshCw } from "lucide-react";
+import { Upload, FileText, Loader2, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { upsertEpisode, useEpisodeByName } from "@/hooks/use-episodes";
+import { useAuth } from "@/hooks/use-auth";
+import { useOpenedScripts } from "@/hooks/use-opened-scripts";
+import { useScriptReviews } from "@/hooks/use-script-reviews";
+import { getActiveJobs, useGenerationJobs, MAX_WAIT_TIME } from "@/hooks/use-generation-jobs";
 import { ScriptApprovalDialog } from "@/components/script-approval-dialog";
-import { supabase } from "@/lib/supabase";
+import { ScriptViewer } from "@/components/script-viewer";
+import { StatusBadge } from "@/components/status-badge";
+import {
+  getEpisodeByName,
+  hasAnyScript,
+  toScriptLinks,
+  updateEpisode,
+  EMPTY_SCRIPT_LINKS,
+  type Episode,
+  type ScriptLinkKey,
+  type ScriptLinks,
+} from "@/lib/episodes";
+import { IllegalTransitionError, UnknownStatusError } from "@/lib/pipeline";
+import { can, PermissionDeniedError } from "@/lib/auth";
+import {
+  episodeNameSchema,
+  requestScriptRegeneration,
+  sendGenerationRequest,
+  WebhookResponseError,
+} from "@/lib/generation";
+import { SCRIPT_DECISION_LABELS } from "@/lib/script-reviews";
+import {
+  extractFileSource,
+  extractUrlSource,
+  getSourceDocumentValue,
+  SourceExtractionError,
+  SOURCE_FILE_ACCEPT,
+  SOURCE_KIND_LABELS,
+  type SourceDocument,
+} from "@/lib/source-documents";
+import { REVIEWABLE_SCRIPT_KEYS } from "@/lib/scripts";
 
 const formSchema = z.object({
-  episodeName: z.string().min(3, {
-    message: "Episode name must be at least 3 characters.",
+  episodeName: episodeNameSchema,
+  source: z.custom<SourceDocument>((value) => !!value, {
+    message: "Please upload a document or fetch a web article.",
   }),
-  pdfFile: z.instanceof(File).refine(
-    (file) => file.size > 0 && file.type === "application/pdf",
-    {
-      message: "Please upload a valid PDF file.",
-    }
-  ),
 });
 
+const sourceUrlSchema = z.string().url();
+
 type FormValues = z.infer<typeof formSchema>;
 
 interface ScriptType {
   id: number;
   name: string;
-  responseKey: string;
+  responseKey: ScriptLinkKey;
   readOnly?: boolean;
 }
 
-// Define the webhook response type
-interface WebhookResponseItem {
-  id?: string;
-  episode_interview_script_1?: string;
-  episode_interview_script_2?: string;
-  episode_interview_script_3?: string;
-  episode_interview_script_4?: string;
-  episode_interview_full_script?: string;
-  episode_interview_file?: string;
-  episode_interview_script_status?: string;
-  episode_text_files_status?: string; // New column
-  podcast_status?: string; // New column
-  [key: string]: any; // For other fields we don't explicitly need
-}
-
-// Interface for script links passed from parent
-interface ScriptLinks {
-  episode_interview_script_1: string | null;
-  episode_interview_script_2: string | null;
-  episode_interview_script_3: string | null;
-  episode_interview_script_4: string | null;
-  episode_interview_full_script?: string | null;
-  episode_interview_file?: string | null;
-  episode_interview_script_status?: string;
-  episode_text_files_status?: string; // New column
-  podcast_status?: string; // New column
-}
-
 interface PodcastFormProps {
   selectedScriptLinks?: ScriptLinks | null;
   selectedEpisodeName?: string | null;
@@ -72,24 +76,21 @@ const isValidScriptLink = (link: string | null): boolean => {
 export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: PodcastFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [source, setSource] = useState<SourceDocument | null>(null);
+  const [sourceUrl, setSourceUrl] = useState("");
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionError, setExtractionError] = useState<string | null>(null);
   const [isScriptGenerated, setIsScriptGenerated] = useState(false);
-  const [scriptStatus, setScriptStatus] = useState<"Pending" | "Approved">("Pending");
+  const [scriptStatus, setScriptStatus] = useState<string | null>(null);
   const [textFilesStatus, setTextFilesStatus] = useState<string | null>(null); // New state
   const [podcastStatus, setPodcastStatus] = useState<string | null>(null); // New state
   const [isApprovalDialogOpen, setIsApprovalDialogOpen] = useState(false);
+  const [viewerScriptKey, setViewerScriptKey] = useState<ScriptLinkKey | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   
   // Initialize with null values instead of empty strings to properly indicate absence of links
-  const [scriptLinks, setScriptLinks] = useState<Record<string, string | null>>({
-    episode_interview_script_1: null,
-    episode_interview_script_2: null,
-    episode_interview_script_3: null,
-    episode_interview_script_4: null,
-    episode_interview_full_script: null,
-    episode_interview_file: null
-  });
+  const [scriptLinks, setScriptLinks] = useState<ScriptLinks>(EMPTY_SCRIPT_LINKS);
   
   // Store form data for retrying
   const lastSubmittedData = useRef<FormValues | null>(null);
@@ -107,32 +108,22 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
   // Store the current episode ID for checking script4 value
   const currentEpisodeId = useRef<string | null>(null);
   
-  // Interval for checking script4 value
-  const script4CheckIntervalRef = useRef<number | null>(null);
-  
-  // Interval for refreshing episodes list
-  const refreshIntervalRef = useRef<number | null>(null);
-  
   // Track if we've already found a matching record
   const foundMatchingRecord = useRef<boolean>(false);
   
-  // Store the last check time to avoid checking too frequently
-  const lastCheckTime = useRef<number>(0);
-  
-  // Maximum time to wait for a response (in milliseconds) - 2 minutes
-  const MAX_WAIT_TIME = 2 * 60 * 1000;
+  // Persisted job for the current submission, so tracking survives a page reload
+  const currentJobId = useRef<string | null>(null);
+  const { jobs, addJob } = useGenerationJobs();
   
-  // Timeout reference for the maximum wait time
-  const maxWaitTimeoutRef = useRef<number | null>(null);
-  
-  // Flag to track if we're checking for existing records
-  const isCheckingExistingRecords = useRef<boolean>(false);
+  // Episode whose row the form follows - the selected one, or the one being generated - kept up to date by the shared realtime store
+  const [followedEpisodeName, setFollowedEpisodeName] = useState<string | null>(null);
+  const { episode: followedEpisode } = useEpisodeByName(followedEpisodeName);
   
   // Reference to the file input element
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   
-  // Flag to track if we need to clear the PDF file
-  const shouldClearPdfFile = useRef<boolean>(false);
+  // Flag to track if we need to clear the source document
+  const shouldClearSource = useRef<boolean>(false);
   
   const {
     register,
@@ -163,27 +154,55 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
   // Check if Script #1 has a valid link
   const hasScript1 = isValidScriptLink(scriptLinks.episode_interview_script_1);
 
+  // Which of the followed episode's scripts the reviewer has opened in the viewer
+  const { openedScripts } = useOpenedScripts(followedEpisode?.id);
+  const unopenedScriptCount = REVIEWABLE_SCRIPT_KEYS.filter(key => !openedScripts.includes(key)).length;
+  
+  // Per-script review decisions - every script has to be approved before audio can be generated
+  const { currentReviews, scriptStatus: reviewedScriptStatus, submitReview, handleScriptEdited } = useScriptReviews(followedEpisode);
+  const unapprovedScriptCount = REVIEWABLE_SCRIPT_KEYS.filter(key => currentReviews[key]?.decision !== "approved").length;
+  
+  // Approving every script sets the script status on its own; audio only starts once the approval is confirmed
+  const hasRequestedAudio = !!textFilesStatus || !!podcastStatus;
+  
+  // Only reviewers may approve the scripts for audio
+  const { user } = useAuth();
+  const canApprove = can(user, "approve");
+
   // Check if an episode is selected
   const isEpisodeSelected = selectedEpisodeName !== null && selectedEpisodeName !== undefined && selectedEpisodeName.trim() !== '';
 
+  // Copy script links and statuses from an episode row into local state
+  const applyEpisodeRecord = useCallback((record: Partial<Episode>) => {
+    setScriptLinks(toScriptLinks(record));
+    setIsScriptGenerated(hasAnyScript(record));
+    
+    // Update script status if available
+    if (record.episode_interview_script_status) {
+      setScriptStatus(record.episode_interview_script_status);
+    }
+    
+    // Update new status fields
+    if (record.episode_text_files_status) {
+      setTextFilesStatus(record.episode_text_files_status);
+    }
+    
+    if (record.podcast_status) {
+      setPodcastStatus(record.podcast_status);
+    }
+  }, []);
+
   // Update form when selectedScriptLinks changes
   useEffect(() => {
     if (selectedScriptLinks) {
       // Update script links
-      setScriptLinks({
-        episode_interview_script_1: selectedScriptLinks.episode_interview_script_1,
-        episode_interview_script_2: selectedScriptLinks.episode_interview_script_2,
-        episode_interview_script_3: selectedScriptLinks.episode_interview_script_3,
-        episode_interview_script_4: selectedScriptLinks.episode_interview_script_4,
-        episode_interview_full_script: selectedScriptLinks.episode_interview_full_script || null,
-        episode_interview_file: selectedScriptLinks.episode_interview_file || null
-      });
+      setScriptLinks(toScriptLinks(selectedScriptLinks));
       
       // Update script status if available
       if (selectedScriptLinks.episode_interview_script_status) {
-        setScriptStatus(selectedScriptLinks.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
+        setScriptStatus(selectedScriptLinks.episode_interview_script_status);
       } else {
-        setScriptStatus("Pending");
+        setScriptStatus(null);
       }
       
       // Update new status fields
@@ -208,114 +227,110 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
       // If episode name is provided, update the form field
       if (selectedEpisodeName && selectedEpisodeName.trim() !== '') {
         setValue("episodeName", selectedEpisodeName);
+        setFollowedEpisodeName(selectedEpisodeName);
       }
     } else {
       // If no script links are selected, reset the form field
       setValue("episodeName", "");
+      setFollowedEpisodeName(null);
       
       // Reset script links
-      setScriptLinks({
-        episode_interview_script_1: null,
-        episode_interview_script_2: null,
-        episode_interview_script_3: null,
-        episode_interview_script_4: null,
-        episode_interview_full_script: null,
-        episode_interview_file: null
-      });
+      setScriptLinks(EMPTY_SCRIPT_LINKS);
       
       // Reset script status
-      setScriptStatus("Pending");
+      setScriptStatus(null);
       setTextFilesStatus(null);
       setPodcastStatus(null);
       setIsScriptGenerated(false);
     }
   }, [selectedScriptLinks, selectedEpisodeName, setValue]);
 
-  // Set up automatic refreshing of episodes list every second
+  // Resume tracking the most recent in-flight generation after a page reload
   useEffect(() => {
-    // Start the refresh interval
-    if (refreshIntervalRef.current === null) {
-      refreshIntervalRef.current = window.setInterval(() => {
-        // Dispatch a custom event to trigger refresh in EpisodesList component
-        window.dispatchEvent(new CustomEvent('episodes-list-auto-refresh'));
-      }, 1000); // Refresh every second
-    }
+    const [activeJob] = getActiveJobs();
+    if (!activeJob) return;
     
-    // Cleanup on unmount
-    return () => {
-      if (refreshIntervalRef.current !== null) {
-        window.clearInterval(refreshIntervalRef.current);
-        refreshIntervalRef.current = null;
-      }
-    };
-  }, []);
+    console.log(`Resuming generation job for episode: ${activeJob.episodeName}`);
+    
+    currentJobId.current = activeJob.id;
+    currentEpisodeName.current = activeJob.episodeName;
+    currentEpisodeId.current = activeJob.episodeId;
+    submissionTimestamp.current = activeJob.submittedAt;
+    foundMatchingRecord.current = false;
+    
+    setValue("episodeName", activeJob.episodeName);
+    setFollowedEpisodeName(activeJob.episodeName);
+    setIsSubmitting(true);
+  }, [setValue]);
 
-  // Clean up intervals when component unmounts or submission state changes
+  // Stop waiting once the job tracker reports that the current job finished or took too long
   useEffect(() => {
-    if (!isSubmitting) {
-      // Clear the script4 check interval if it exists
-      if (script4CheckIntervalRef.current !== null) {
-        window.clearInterval(script4CheckIntervalRef.current);
-        script4CheckIntervalRef.current = null;
-      }
-      
-      // Clear the max wait timeout if it exists
-      if (maxWaitTimeoutRef.current !== null) {
-        window.clearTimeout(maxWaitTimeoutRef.current);
-        maxWaitTimeoutRef.current = null;
-      }
-      
-      // Reset the foundMatchingRecord flag when submission ends
-      foundMatchingRecord.current = false;
+    if (!isSubmitting || !currentJobId.current) return;
+    
+    const currentJob = jobs.find(job => job.id === currentJobId.current);
+    
+    if (currentJob?.status === "timed_out") {
+      console.log(`Maximum wait time of ${MAX_WAIT_TIME}ms exceeded. Stopping loading state.`);
       
-      // Reset the isCheckingExistingRecords flag
-      isCheckingExistingRecords.current = false;
+      setIsSubmitting(false);
+      shouldClearSource.current = true;
       
-      // If we should clear the PDF file, do it now
-      if (shouldClearPdfFile.current) {
-        clearPdfFile();
-        shouldClearPdfFile.current = false;
-      }
+      toast({
+        title: "Processing Timeout",
+        description: "The request is taking longer than expected. It is still tracked under jobs in progress.",
+        variant: "destructive",
+      });
     }
+  }, [jobs, isSubmitting, toast]);
+
+  // Follow the selected or just submitted episode as the shared store receives changes
+  useEffect(() => {
+    const record = followedEpisode;
+    if (!followedEpisodeName || !record) return;
     
-    // Cleanup on unmount
-    return () => {
-      if (script4CheckIntervalRef.current !== null) {
-        window.clearInterval(script4CheckIntervalRef.current);
-        script4CheckIntervalRef.current = null;
-      }
+    // Mark that we've found a matching record and store its ID
+    foundMatchingRecord.current = true;
+    currentEpisodeId.current = record.id;
+    
+    // Update script links and statuses
+    applyEpisodeRecord(record);
+    
+    // Stop the loading state when all scripts are available
+    if (isSubmitting && record.episode_interview_script_4) {
+      setIsSubmitting(false);
+      shouldClearSource.current = true;
       
-      if (maxWaitTimeoutRef.current !== null) {
-        window.clearTimeout(maxWaitTimeoutRef.current);
-        maxWaitTimeoutRef.current = null;
-      }
-    };
-  }, [isSubmitting]);
+      // Show notification
+      toast({
+        title: "Success!",
+        description: `Scripts for "${followedEpisodeName}" have been generated.`,
+        variant: "default",
+      });
+    }
+  }, [followedEpisode, followedEpisodeName, isSubmitting, applyEpisodeRecord, toast]);
 
-  // Listen for episodes-list-refresh event to check for new rows
+  // Reset submission state when the submission ends
   useEffect(() => {
-    const handleEpisodesListRefresh = () => {
-      // Only check if we're currently submitting and haven't found a match yet
-      if (isSubmitting && !foundMatchingRecord.current && currentEpisodeName.current) {
-        checkForNewRow();
+    if (!isSubmitting) {
+      // Reset the foundMatchingRecord flag when submission ends
+      foundMatchingRecord.current = false;
+      
+      // If we should clear the source document, do it now
+      if (shouldClearSource.current) {
+        clearSourceDocument();
+        shouldClearSource.current = false;
       }
-    };
-
-    // Add event listener
-    window.addEventListener('episodes-list-refresh', handleEpisodesListRefresh);
-    
-    // Cleanup
-    return () => {
-      window.removeEventListener('episodes-list-refresh', handleEpisodesListRefresh);
-    };
+    }
   }, [isSubmitting]);
 
-  // Function to clear the PDF file
-  const clearPdfFile = () => {
-    console.log("Clearing PDF file");
+  // Function to clear the source document
+  const clearSourceDocument = () => {
+    console.log("Clearing source document");
     
-    // Clear the selected file state
-    setSelectedFile(null);
+    // Clear the selected source state
+    setSource(null);
+    setSourceUrl("");
+    setExtractionError(null);
     
     // Reset the file input value using the ref
     if (fileInputRef.current) {
@@ -323,7 +338,7 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
     }
     
     // Also try to reset using getElementById as a fallback
-    const fileInput = document.getElementById('pdfFile') as HTMLInputElement;
+    const fileInput = document.getElementById('sourceFile') as HTMLInputElement;
     if (fileInput) {
       fileInput.value = '';
     }
@@ -334,8 +349,8 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
     // When isSubmitting changes from true to false and we have found a matching record,
     // clear the selected file
     if (!isSubmitting && foundMatchingRecord.current) {
-      console.log("Submission completed, clearing PDF file");
-      clearPdfFile();
+      console.log("Submission completed, clearing source document");
+      clearSourceDocument();
     }
   }, [isSubmitting]);
 
@@ -350,7 +365,7 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
         // IMPORTANT: Make sure to stop the loading state when Script #4 is available
         if (isSubmitting) {
           setIsSubmitting(false);
-          shouldClearPdfFile.current = true;
+          shouldClearSource.current = true;
         }
       }
     } else {
@@ -358,366 +373,22 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
     }
   }, [scriptLinks, isSubmitting, hasScript1, hasScript4]);
 
-  // Function to check if a new row has been created for the current episode
-  const checkForNewRow = async () => {
-    if (!currentEpisodeName.current || !isSubmitting || foundMatchingRecord.current || isCheckingExistingRecords.current) return;
-    
-    // Set the checking flag to prevent concurrent checks
-    isCheckingExistingRecords.current = true;
-    
-    try {
-      console.log(`Checking for new row with episode name: ${currentEpisodeName.current}`);
-      
-      // Query the database for records with the current episode name
-      const { data, error } = await supabase
-        .from('autoworkflow')
-        .select('id, created_at, episode_interview_file_name, episode_interview_script_1, episode_interview_script_2, episode_interview_script_3, episode_interview_script_4, episode_interview_full_script, episode_interview_file, episode_interview_script_status, episode_text_files_status, podcast_status')
-        .eq('episode_interview_file_name', currentEpisodeName.current);
-      
-      if (error) {
-        console.error('Error checking for new row:', error);
-        isCheckingExistingRecords.current = false;
-        return;
-      }
-      
-      // If we found matching records
-      if (data && data.length > 0) {
-        console.log('Found matching records:', data);
-        
-        // Sort by created_at to get the most recent record
-        const sortedRecords = [...data].sort((a, b) => {
-          const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
-          const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
-          return dateB - dateA; // Sort in descending order (newest first)
-        });
-        
-        const mostRecentRecord = sortedRecords[0];
-        
-        // IMPORTANT: We're now stopping the loading state as soon as we find ANY record with the matching episode name
-        console.log('Found record for current episode:', mostRecentRecord);
-        
-        // Mark that we've found a matching record to prevent further checks
-        foundMatchingRecord.current = true;
-        
-        // Store the record ID
-        currentEpisodeId.current = mostRecentRecord.id;
-        
-        // Update all script links
-        setScriptLinks({
-          episode_interview_script_1: mostRecentRecord.episode_interview_script_1 || null,
-          episode_interview_script_2: mostRecentRecord.episode_interview_script_2 || null,
-          episode_interview_script_3: mostRecentRecord.episode_interview_script_3 || null,
-          episode_interview_script_4: mostRecentRecord.episode_interview_script_4 || null,
-          episode_interview_full_script: mostRecentRecord.episode_interview_full_script || null,
-          episode_interview_file: mostRecentRecord.episode_interview_file || null
-        });
-        
-        // Set script generated flag if any script exists
-        const hasAnyScript = mostRecentRecord.episode_interview_script_1 || 
-                            mostRecentRecord.episode_interview_script_2 || 
-                            mostRecentRecord.episode_interview_script_3 || 
-                            mostRecentRecord.episode_interview_script_4;
-        
-        setIsScriptGenerated(!!hasAnyScript);
-        
-        // Update script status if available
-        if (mostRecentRecord.episode_interview_script_status) {
-          setScriptStatus(mostRecentRecord.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-        }
-        
-        // Update new status fields
-        if (mostRecentRecord.episode_text_files_status) {
-          setTextFilesStatus(mostRecentRecord.episode_text_files_status);
-        }
-        
-        if (mostRecentRecord.podcast_status) {
-          setPodcastStatus(mostRecentRecord.podcast_status);
-        }
-        
-        // Check if Script #1 is available but not Script #4
-        const hasScript1 = !!mostRecentRecord.episode_interview_script_1;
-        const hasScript4 = !!mostRecentRecord.episode_interview_script_4;
-        
-        if (hasScript1 && !hasScript4) {
-          // Keep the loading state active but update the processing status
-          setProcessingStatus("Script #1 has been generated, kindly wait for the other scripts to load");
-        } else if (hasScript4) {
-          // Stop the loading state when all scripts are available
-          setIsSubmitting(false);
-          shouldClearPdfFile.current = true;
-          
-          // Clear the script4 check interval
-          if (script4CheckIntervalRef.current !== null) {
-            window.clearInterval(script4CheckIntervalRef.current);
-            script4CheckIntervalRef.current = null;
-          }
-          
-          // Clear the max wait timeout
-          if (maxWaitTimeoutRef.current !== null) {
-            window.clearTimeout(maxWaitTimeoutRef.current);
-            maxWaitTimeoutRef.current = null;
-          }
-          
-          // Show notification
-          toast({
-            title: "Success!",
-            description: `Scripts for "${currentEpisodeName.current}" have been generated.`,
-            variant: "default",
-          });
-        }
-      }
-    } catch (err) {
-      console.error('Error in checkForNewRow:', err);
-    } finally {
-      // Reset the checking flag
-      isCheckingExistingRecords.current = false;
-    }
-  };
-
-  // Set up subscription to listen for changes in the autoworkflow table
-  useEffect(() => {
-    // Subscribe to INSERT events
-    const insertSubscription = supabase
-      .channel('autoworkflow-inserts')
-      .on('postgres_changes', { 
-        event: 'INSERT', 
-        schema: 'public', 
-        table: 'autoworkflow' 
-      }, (payload) => {
-        console.log('New record created in Supabase:', payload);
-        
-        // Only process if we're currently submitting and have an episode name
-        if (isSubmitting && currentEpisodeName.current && !foundMatchingRecord.current) {
-          const newRecord = payload.new as any;
-          
-          // Check if this is the record for our current episode
-          if (newRecord.episode_interview_file_name === currentEpisodeName.current) {
-            console.log('New record matches our current episode');
-            
-            // Mark that we've found a matching record
-            foundMatchingRecord.current = true;
-            
-            // Update script links
-            setScriptLinks({
-              episode_interview_script_1: newRecord.episode_interview_script_1 || null,
-              episode_interview_script_2: newRecord.episode_interview_script_2 || null,
-              episode_interview_script_3: newRecord.episode_interview_script_3 || null,
-              episode_interview_script_4: newRecord.episode_interview_script_4 || null,
-              episode_interview_full_script: newRecord.episode_interview_full_script || null,
-              episode_interview_file: newRecord.episode_interview_file || null
-            });
-            
-            // Set script generated flag if any script exists
-            const hasAnyScript = newRecord.episode_interview_script_1 || 
-                                newRecord.episode_interview_script_2 || 
-                                newRecord.episode_interview_script_3 || 
-                                newRecord.episode_interview_script_4;
-            
-            setIsScriptGenerated(!!hasAnyScript);
-            
-            // Update script status if available
-            if (newRecord.episode_interview_script_status) {
-              setScriptStatus(newRecord.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-            }
-            
-            // Update new status fields
-            if (newRecord.episode_text_files_status) {
-              setTextFilesStatus(newRecord.episode_text_files_status);
-            }
-            
-            if (newRecord.podcast_status) {
-              setPodcastStatus(newRecord.podcast_status);
-            }
-            
-            // Check if Script #1 is available but not Script #4
-            const hasScript1 = !!newRecord.episode_interview_script_1;
-            const hasScript4 = !!newRecord.episode_interview_script_4;
-            
-            if (hasScript1 && !hasScript4) {
-              // Keep the loading state active but update the processing status
-              setProcessingStatus("Script #1 has been generated, kindly wait for the other scripts to load");
-            } else if (hasScript4) {
-              // Stop the loading state when all scripts are available
-              setIsSubmitting(false);
-              shouldClearPdfFile.current = true;
-              
-              // Clear the script4 check interval
-              if (script4CheckIntervalRef.current !== null) {
-                window.clearInterval(script4CheckIntervalRef.current);
-                script4CheckIntervalRef.current = null;
-              }
-              
-              // Clear the max wait timeout
-              if (maxWaitTimeoutRef.current !== null) {
-                window.clearTimeout(maxWaitTimeoutRef.current);
-                maxWaitTimeoutRef.current = null;
-              }
-              
-              // Show notification
-              toast({
-                title: "Success!",
-                description: `Scripts for "${currentEpisodeName.current}" have been generated.`,
-                variant: "default",
-              });
-            }
-          }
-        }
-      })
-      .subscribe();
-
-    // Subscribe to UPDATE events
-    const updateSubscription = supabase
-      .channel('autoworkflow-updates')
-      .on('postgres_changes', { 
-        event: 'UPDATE', 
-        schema: 'public', 
-        table: 'autoworkflow' 
-      }, (payload) => {
-        console.log('Record updated in Supabase:', payload);
-        
-        // Only process if we're currently submitting and have an episode name
-        if (currentEpisodeName.current) {
-          const updatedRecord = payload.new as any;
-          
-          // Check if this is the record for our current episode
-          if (updatedRecord.episode_interview_file_name === currentEpisodeName.current) {
-            console.log('Updated record matches our current episode');
-            
-            // Mark that we've found a matching record
-            foundMatchingRecord.current = true;
-            
-            // Update script links
-            setScriptLinks({
-              episode_interview_script_1: updatedRecord.episode_interview_script_1 || null,
-              episode_interview_script_2: updatedRecord.episode_interview_script_2 || null,
-              episode_interview_script_3: updatedRecord.episode_interview_script_3 || null,
-              episode_interview_script_4: updatedRecord.episode_interview_script_4 || null,
-              episode_interview_full_script: updatedRecord.episode_interview_full_script || null,
-              episode_interview_file: updatedRecord.episode_interview_file || null
-            });
-            
-            // Set script generated flag if any script exists
-            const hasAnyScript = updatedRecord.episode_interview_script_1 || 
-                                updatedRecord.episode_interview_script_2 || 
-                                updatedRecord.episode_interview_script_3 || 
-                                updatedRecord.episode_interview_script_4;
-            
-            setIsScriptGenerated(!!hasAnyScript);
-            
-            // Update script status if available
-            if (updatedRecord.episode_interview_script_status) {
-              setScriptStatus(updatedRecord.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-            }
-            
-            // Update new status fields
-            if (updatedRecord.episode_text_files_status) {
-              setTextFilesStatus(updatedRecord.episode_text_files_status);
-            }
-            
-            if (updatedRecord.podcast_status) {
-              setPodcastStatus(updatedRecord.podcast_status);
-            }
-            
-            // Check if Script #1 is available but not Script #4
-            const hasScript1 = !!updatedRecord.episode_interview_script_1;
-            const hasScript4 = !!updatedRecord.episode_interview_script_4;
-            
-            if (hasScript1 && !hasScript4) {
-              // Keep the loading state active but update the processing status
-              setProcessingStatus("Script #1 has been generated, kindly wait for the other scripts to load");
-            } else if (hasScript4 && isSubmitting) {
-              // Stop the loading state when all scripts are available
-              setIsSubmitting(false);
-              shouldClearPdfFile.current = true;
-              
-              // Clear the script4 check interval
-              if (script4CheckIntervalRef.current !== null) {
-                window.clearInterval(script4CheckIntervalRef.current);
-                script4CheckIntervalRef.current = null;
-              }
-              
-              // Clear the max wait timeout
-              if (maxWaitTimeoutRef.current !== null) {
-                window.clearTimeout(maxWaitTimeoutRef.current);
-                maxWaitTimeoutRef.current = null;
-              }
-              
-              // Show notification
-              toast({
-                title: "Success!",
-                description: `Scripts for "${currentEpisodeName.current}" have been generated.`,
-                variant: "default",
-              });
-            }
-          }
-        }
-      })
-      .subscribe();
-
-    // Cleanup subscriptions on unmount
-    return () => {
-      insertSubscription.unsubscribe();
-      updateSubscription.unsubscribe();
-      
-      // Clear the script4 check interval if it exists
-      if (script4CheckIntervalRef.current !== null) {
-        window.clearInterval(script4CheckIntervalRef.current);
-        script4CheckIntervalRef.current = null;
-      }
-      
-      // Clear the max wait timeout if it exists
-      if (maxWaitTimeoutRef.current !== null) {
-        window.clearTimeout(maxWaitTimeoutRef.current);
-        maxWaitTimeoutRef.current = null;
-      }
-    };
-  }, [isSubmitting, toast]);
-
   // Process webhook response
-  const processWebhookResponse = (data: any) => {
+  const processWebhookResponse = (data: unknown) => {
     console.log("Processing webhook response:", data);
     
     try {
       // Handle array response (from the webhook)
       if (Array.isArray(data) && data.length > 0) {
-        const item = data[0];
+        const item = data[0] as Partial<Episode>;
         
         // Check if this is for our current episode
         if (item.episode_interview_file_name === currentEpisodeName.current) {
           // Mark that we've found a matching record
           foundMatchingRecord.current = true;
           
-          // Update script links
-          setScriptLinks({
-            episode_interview_script_1: item.episode_interview_script_1 || null,
-            episode_interview_script_2: item.episode_interview_script_2 || null,
-            episode_interview_script_3: item.episode_interview_script_3 || null,
-            episode_interview_script_4: item.episode_interview_script_4 || null,
-            episode_interview_full_script: item.episode_interview_full_script || null,
-            episode_interview_file: item.episode_interview_file || null
-          });
-          
-          // Set script generated flag if any script exists
-          const hasAnyScript = item.episode_interview_script_1 || 
-                              item.episode_interview_script_2 || 
-                              item.episode_interview_script_3 || 
-                              item.episode_interview_script_4;
-          
-          setIsScriptGenerated(!!hasAnyScript);
-          
-          // Update script status if available
-          if (item.episode_interview_script_status) {
-            setScriptStatus(item.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-          }
-          
-          // Update new status fields
-          if (item.episode_text_files_status) {
-            setTextFilesStatus(item.episode_text_files_status);
-          }
-          
-          if (item.podcast_status) {
-            setPodcastStatus(item.podcast_status);
-          }
+          // Update script links and statuses
+          applyEpisodeRecord(item);
           
           // Check if Script #1 is available but not Script #4
           const hasScript1 = !!item.episode_interview_script_1;
@@ -729,7 +400,7 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
           } else if (hasScript4) {
             // Stop the loading state when all scripts are available
             setIsSubmitting(false);
-            shouldClearPdfFile.current = true;
+            shouldClearSource.current = true;
           }
           
           return true;
@@ -767,102 +438,25 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
     });
     
     // Reset script links to null when starting a new submission
-    setScriptLinks({
-      episode_interview_script_1: null,
-      episode_interview_script_2: null,
-      episode_interview_script_3: null,
-      episode_interview_script_4: null,
-      episode_interview_full_script: null,
-      episode_interview_file: null
-    });
+    setScriptLinks(EMPTY_SCRIPT_LINKS);
     setIsScriptGenerated(false);
     setTextFilesStatus(null);
     setPodcastStatus(null);
     
-    // Create FormData
-    const formData = new FormData();
-    formData.append("episodeName", data.episodeName);
-    formData.append("pdfFile", data.pdfFile);
-    
     console.log("Submitting form to webhook");
     console.log("Episode name:", data.episodeName);
-    console.log("PDF file name:", data.pdfFile.name);
-    console.log("PDF file size:", data.pdfFile.size, "bytes");
-    console.log("PDF file type:", data.pdfFile.type);
+    console.log("Source type:", data.source.kind);
+    console.log("Source name:", data.source.fileName);
     
     // Set the submission timestamp
     submissionTimestamp.current = Date.now();
     console.log(`Setting submission timestamp: ${submissionTimestamp.current}`);
     
-    // Reset the last check time
-    lastCheckTime.current = 0;
-    
-    // Set up an interval to check for new rows every second
-    if (script4CheckIntervalRef.current !== null) {
-      window.clearInterval(script4CheckIntervalRef.current);
-    }
-    
-    script4CheckIntervalRef.current = window.setInterval(() => {
-      if (isSubmitting && !foundMatchingRecord.current) {
-        checkForNewRow();
-      } else {
-        // Clear the interval if we're no longer submitting or found a match
-        if (script4CheckIntervalRef.current !== null) {
-          window.clearInterval(script4CheckIntervalRef.current);
-          script4CheckIntervalRef.current = null;
-        }
-      }
-    }, 1000); // Check every second
-    
-    // Set up a timeout to stop waiting after MAX_WAIT_TIME
-    if (maxWaitTimeoutRef.current !== null) {
-      window.clearTimeout(maxWaitTimeoutRef.current);
-    }
-    
-    maxWaitTimeoutRef.current = window.setTimeout(() => {
-      if (isSubmitting) {
-        console.log(`Maximum wait time of ${MAX_WAIT_TIME}ms exceeded. Stopping loading state.`);
-        
-        // Stop the loading state
-        setIsSubmitting(false);
-        shouldClearPdfFile.current = true;
-        
-        // Clear the script4 check interval
-        if (script4CheckIntervalRef.current !== null) {
-          window.clearInterval(script4CheckIntervalRef.current);
-          script4CheckIntervalRef.current = null;
-        }
-        
-        // Show notification
-        toast({
-          title: "Processing Timeout",
-          description: "The request is taking longer than expected. Please check the episodes list for your submission.",
-          variant: "destructive",
-        });
-      }
-    }, MAX_WAIT_TIME);
-    
     // Check if there's already a record with this episode name
     try {
-      const { data: existingData, error: existingError } = await supabase
-        .from('autoworkflow')
-        .select('id, created_at, episode_interview_script_1, episode_interview_script_2, episode_interview_script_3, episode_interview_script_4, episode_interview_full_script, episode_interview_file, episode_interview_script_status, episode_text_files_status, podcast_status')
-        .eq('episode_interview_file_name', data.episodeName);
+      const mostRecentRecord = await getEpisodeByName(data.episodeName);
       
-      if (existingError) {
-        console.error('Error checking for existing records:', existingError);
-      } else if (existingData && existingData.length > 0) {
-        console.log('Found existing records with the same episode name:', existingData);
-        
-        // Sort by created_at to get the most recent record
-        const sortedRecords = [...existingData].sort((a, b) => {
-          const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
-          const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
-          return dateB - dateA; // Sort in descending order (newest first)
-        });
-        
-        const mostRecentRecord = sortedRecords[0];
-        
+      if (mostRecentRecord) {
         // IMPORTANT: We're now stopping the loading state for ANY existing record with the matching episode name
         console.log('Using existing record:', mostRecentRecord);
         
@@ -872,53 +466,13 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
         // Store the record ID
         currentEpisodeId.current = mostRecentRecord.id;
         
-        // Update all script links
-        setScriptLinks({
-          episode_interview_script_1: mostRecentRecord.episode_interview_script_1 || null,
-          episode_interview_script_2: mostRecentRecord.episode_interview_script_2 || null,
-          episode_interview_script_3: mostRecentRecord.episode_interview_script_3 || null,
-          episode_interview_script_4: mostRecentRecord.episode_interview_script_4 || null,
-          episode_interview_full_script: mostRecentRecord.episode_interview_full_script || null,
-          episode_interview_file: mostRecentRecord.episode_interview_file || null
-        });
+        // Update script links and statuses
+        applyEpisodeRecord(mostRecentRecord);
         
-        // Stop the loading state
+        // Stop the loading state and keep following the existing record
         setIsSubmitting(false);
-        shouldClearPdfFile.current = true;
-        
-        // Clear the script4 check interval
-        if (script4CheckIntervalRef.current !== null) {
-          window.clearInterval(script4CheckIntervalRef.current);
-          script4CheckIntervalRef.current = null;
-        }
-        
-        // Clear the max wait timeout
-        if (maxWaitTimeoutRef.current !== null) {
-          window.clearTimeout(maxWaitTimeoutRef.current);
-          maxWaitTimeoutRef.current = null;
-        }
-        
-        // Set script generated flag if any script exists
-        const hasAnyScript = mostRecentRecord.episode_interview_script_1 || 
-                            mostRecentRecord.episode_interview_script_2 || 
-                            mostRecentRecord.episode_interview_script_3 || 
-                            mostRecentRecord.episode_interview_script_4;
-        
-        setIsScriptGenerated(!!hasAnyScript);
-        
-        // Update script status if available
-        if (mostRecentRecord.episode_interview_script_status) {
-          setScriptStatus(mostRecentRecord.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-        }
-        
-        // Update new status fields
-        if (mostRecentRecord.episode_text_files_status) {
-          setTextFilesStatus(mostRecentRecord.episode_text_files_status);
-        }
-        
-        if (mostRecentRecord.podcast_status) {
-          setPodcastStatus(mostRecentRecord.podcast_status);
-        }
+        setFollowedEpisodeName(data.episodeName);
+        shouldClearSource.current = true;
         
         // Show notification
         toast({
@@ -934,67 +488,33 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
       console.error('Error checking for existing records:', err);
     }
     
+    // Record the submission so it keeps being tracked if the page is reloaded
+    currentJobId.current = addJob({
+      episodeName: data.episodeName,
+      fileName: data.source.fileName,
+      sourceDocument: getSourceDocumentValue(data.source),
+    });
+    
+    // Follow the new row as soon as the shared store receives it
+    setFollowedEpisodeName(data.episodeName);
+    
     // Send the webhook request
     try {
-      // Webhook URL
-      const webhookUrl = "https://d-launch.app.n8n.cloud/webhook-test/a662a23d-ca8c-499c-8524-a1292fb55950";
-      
-      // Use fetch with proper headers for binary file upload
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        body: formData,
-        // No need to set Content-Type header as it will be automatically set with the boundary
-      });
-      
-      console.log("Webhook response status:", response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Could not read error response");
-        console.error(`Server responded with status ${response.status}: ${response.statusText}. Details: ${errorText}`);
-        
-        // Just log the error - we'll continue waiting for new rows
-        setLastError(`Error: Server responded with status ${response.status}`);
-        setDetailedError(errorText);
-      } else {
-        // Try to parse the response as JSON
-        try {
-          const responseData = await response.json();
-          console.log("Response data:", responseData);
-          
-          // Process the webhook response
-          const processed = processWebhookResponse(responseData);
-          
-          // If we processed the response successfully, we can stop checking for new rows
-          if (processed) {
-            // Clear the script4 check interval
-            if (script4CheckIntervalRef.current !== null) {
-              window.clearInterval(script4CheckIntervalRef.current);
-              script4CheckIntervalRef.current = null;
-            }
-            
-            // Clear the max wait timeout
-            if (maxWaitTimeoutRef.current !== null) {
-              window.clearTimeout(maxWaitTimeoutRef.current);
-              maxWaitTimeoutRef.current = null;
-            }
-          }
-        } catch (parseError) {
-          console.error("Error parsing response:", parseError);
-          setLastError("Error parsing response");
-          setDetailedError(parseError instanceof Error ? parseError.message : "Unknown error");
-        }
-      }
-      
-      // Force an immediate check for new rows after webhook response
-      checkForNewRow();
+      const responseData = await sendGenerationRequest(data.episodeName, data.source);
+      console.log("Response data:", responseData);
       
+      // Process the webhook response
+      processWebhookResponse(responseData);
     } catch (error) {
       console.error("Error submitting form:", error);
       
       let errorMessage = "An error occurred while processing your request.";
       let detailedMsg = "";
       
-      if (error instanceof Error) {
+      if (error instanceof WebhookResponseError) {
+        errorMessage = error.message;
+        detailedMsg = error.details;
+      } else if (error instanceof Error) {
         errorMessage = error.message;
         detailedMsg = `Error type: ${error.name}. Stack trace: ${error.stack || 'Not available'}`;
       }
@@ -1005,18 +525,55 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
       // Log the error but don't show it to the user - we'll continue waiting for new rows
       console.error("Webhook error:", errorMessage);
       console.error("Detailed error:", detailedMsg);
-      
-      // Force an immediate check for new rows after error
-      checkForNewRow();
+    }
+  };
+
+  // Extract the text of an uploaded or fetched source so it can be previewed before submitting
+  const loadSource = async (extract: () => Promise<SourceDocument>) => {
+    setIsExtracting(true);
+    setExtractionError(null);
+    
+    try {
+      const extracted = await extract();
+      setSource(extracted);
+      setValue("source", extracted, { shouldValidate: true });
+    } catch (err) {
+      console.error("Error extracting source document:", err);
+      setSource(null);
+      setExtractionError(
+        err instanceof SourceExtractionError ? err.message : "The document could not be read."
+      );
+    } finally {
+      setIsExtracting(false);
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      setSelectedFile(file);
-      setValue("pdfFile", file);
+      setSourceUrl("");
+      loadSource(() => extractFileSource(file));
+    }
+  };
+
+  const handleFetchUrl = () => {
+    const url = sourceUrl.trim();
+    
+    if (!sourceUrlSchema.safeParse(url).success) {
+      setExtractionError("Please enter a valid URL.");
+      return;
+    }
+    
+    // Drop any uploaded file so the URL is the only source
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
+    loadSource(() => extractUrlSource(url));
+  };
+
+  const handleRegenerateScript = async (scriptKey: ScriptLinkKey, comment: string | null) => {
+    if (!followedEpisode) return;
+    await requestScriptRegeneration(followedEpisode, scriptKey, comment);
   };
 
   const handleApproveScripts = () => {
@@ -1024,38 +581,44 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
   };
 
   const confirmApproval = async () => {
-    setScriptStatus("Approved");
     setIsApprovalDialogOpen(false);
     
     // If we have a current episode ID, update the status in the database
     if (currentEpisodeId.current) {
       try {
-        const { error } = await supabase
-          .from('autoworkflow')
-          .update({ 
-            episode_interview_script_status: "Approved",
-            episode_text_files_status: "Pending", // Set initial status for text files
-            podcast_status: "Pending" // Set initial status for podcast
-          })
-          .eq('id', currentEpisodeId.current);
+        await updateEpisode(currentEpisodeId.current, {
+          episode_interview_script_status: "Approved",
+          episode_text_files_status: "Pending", // Set initial status for text files
+          podcast_status: "Pending" // Set initial status for podcast
+        });
         
-        if (error) {
-          console.error('Error updating script status:', error);
+        // Update local state
+        setTextFilesStatus("Pending");
+        setPodcastStatus("Pending");
+      } catch (err) {
+        console.error('Error updating script status:', err);
+        
+        // The pipeline refused the approval, so don't mark it as approved locally either
+        if (err instanceof IllegalTransitionError || err instanceof UnknownStatusError || err instanceof PermissionDeniedError) {
           toast({
-            title: "Update Error",
-            description: "Failed to update script status in the database, but marked as approved locally.",
+            title: "Approval Not Allowed",
+            description: err.message,
             variant: "destructive",
           });
-        } else {
-          // Update local state
-          setTextFilesStatus("Pending");
-          setPodcastStatus("Pending");
+          return;
         }
-      } catch (err) {
-        console.error('Error updating script status:', err);
+        
+        setScriptStatus("Approved");
+        toast({
+          title: "Update Error",
+          description: "Failed to update script status in the database, but marked as approved locally.",
+          variant: "destructive",
+        });
+        return;
       }
     }
     
+    setScriptStatus("Approved");
     toast({
       title: "Scripts Approved",
       description: "All scripts have been successfully approved. Audio generation has started.",
@@ -1074,56 +637,12 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
     setIsRefreshing(true);
     
     try {
-      const { data, error } = await supabase
-        .from('autoworkflow')
-        .select('id, episode_interview_script_1, episode_interview_script_2, episode_interview_script_3, episode_interview_script_4, episode_interview_full_script, episode_interview_file, episode_interview_script_status, episode_text_files_status, podcast_status')
-        .eq('episode_interview_file_name', currentEpisodeName.current);
+      const mostRecentRecord = await getEpisodeByName(currentEpisodeName.current);
       
-      if (error) {
-        console.error('Error refreshing script links:', error);
-        toast({
-          title: "Refresh Error",
-          description: "Failed to refresh script links.",
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      if (data && data.length > 0) {
-        // Sort by created_at to get the most recent record (if multiple exist)
-        const mostRecentRecord = data[0];
-        
-        // Update script links
-        setScriptLinks({
-          episode_interview_script_1: mostRecentRecord.episode_interview_script_1 || null,
-          episode_interview_script_2: mostRecentRecord.episode_interview_script_2 || null,
-          episode_interview_script_3: mostRecentRecord.episode_interview_script_3 || null,
-          episode_interview_script_4: mostRecentRecord.episode_interview_script_4 || null,
-          episode_interview_full_script: mostRecentRecord.episode_interview_full_script || null,
-          episode_interview_file: mostRecentRecord.episode_interview_file || null
-        });
-        
-        // Update script status if available
-        if (mostRecentRecord.episode_interview_script_status) {
-          setScriptStatus(mostRecentRecord.episode_interview_script_status === "Approved" ? "Approved" : "Pending");
-        }
-        
-        // Update new status fields
-        if (mostRecentRecord.episode_text_files_status) {
-          setTextFilesStatus(mostRecentRecord.episode_text_files_status);
-        }
-        
-        if (mostRecentRecord.podcast_status) {
-          setPodcastStatus(mostRecentRecord.podcast_status);
-        }
-        
-        // Set script generated flag if any script exists
-        const hasAnyScript = mostRecentRecord.episode_interview_script_1 || 
-                            mostRecentRecord.episode_interview_script_2 || 
-                            mostRecentRecord.episode_interview_script_3 || 
-                            mostRecentRecord.episode_interview_script_4;
-        
-        setIsScriptGenerated(!!hasAnyScript);
+      if (mostRecentRecord) {
+        // Update script links and statuses, and share the row with the rest of the app
+        applyEpisodeRecord(mostRecentRecord);
+        upsertEpisode(mostRecentRecord);
         
         toast({
           title: "Scripts Refreshed",
@@ -1132,7 +651,12 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
         });
       }
     } catch (err) {
-      console.error('Error in refreshScriptLinks:', err);
+      console.error('Error refreshing script links:', err);
+      toast({
+        title: "Refresh Error",
+        description: "Failed to refresh script links.",
+        variant: "destructive",
+      });
     } finally {
       setIsRefreshing(false);
     }
@@ -1141,38 +665,6 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
   // Check if we have a valid selected episode
   const hasValidSelectedEpisode = selectedEpisodeName && selectedEpisodeName.trim() !== '';
 
-  // Render status badges for text files and podcast
-  const renderStatusBadge = (status: string | null, type: string) => {
-    if (!status) return null;
-    
-    let bgColor = "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100";
-    let icon = <AlertCircle className="w-3 h-3 mr-1" />;
-    
-    if (status === "Pending") {
-      bgColor = "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100";
-      icon = <AlertCircle className="w-3 h-3 mr-1" />;
-    } else if (status === "Processing") {
-      bgColor = "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100";
-      icon = <Loader2 className="w-3 h-3 mr-1 animate-spin" />;
-    } else if (status === "Completed") {
-      bgColor = "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100";
-      icon = <CheckCircle className="w-3 h-3 mr-1" />;
-    } else if (status === "Failed") {
-      bgColor = "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100";
-      icon = <AlertCircle className="w-3 h-3 mr-1" />;
-    }
-    
-    return (
-      <div className="flex items-center mt-1">
-        <span className="text-sm font-medium mr-2">{type}:</span>
-        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${bgColor}`}>
-          {icon}
-          {status}
-        </span>
-      </div>
-    );
-  };
-
   return (
     <>
       {/* Only show the viewing scripts header when a valid episode is selected */}
@@ -1211,10 +703,10 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
         </div>
         
         <div className="space-y-2">
-          <Label htmlFor="pdfFile">Upload PDF</Label>
+          <Label htmlFor="sourceFile">Upload Source Document</Label>
           <div className="flex items-center justify-center w-full">
             <label
-              htmlFor="pdfFile"
+              htmlFor="sourceFile"
               className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg ${
                 isEpisodeSelected 
                   ? 'cursor-not-allowed bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-700' 
@@ -1239,18 +731,18 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
                     ? 'text-gray-400 dark:text-gray-500' 
                     : 'text-gray-500 dark:text-gray-400'
                 }`}>
-                  PDF files only
+                  PDF, DOCX, Markdown or TXT
                 </p>
-                {selectedFile && (
+                {source?.file && (
                   <p className="mt-2 text-sm font-medium text-green-600 dark:text-green-400">
-                    {selectedFile.name}
+                    {source.file.name}
                   </p>
                 )}
               </div>
               <input
-                id="pdfFile"
+                id="sourceFile"
                 type="file"
-                accept=".pdf"
+                accept={SOURCE_FILE_ACCEPT}
                 className="hidden"
                 onChange={handleFileChange}
                 disabled={isEpisodeSelected}
@@ -1258,8 +750,57 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
               />
             </label>
           </div>
-          {errors.pdfFile && (
-            <p className="text-sm text-red-500">{errors.pdfFile.message}</p>
+          
+          {/* Web articles are fetched and reduced to their text in the browser */}
+          <div className="flex items-center space-x-2">
+            <Input
+              id="sourceUrl"
+              type="url"
+              placeholder="...or paste a web article URL"
+              value={sourceUrl}
+              onChange={(e) => setSourceUrl(e.target.value)}
+              disabled={isEpisodeSelected || isExtracting}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleFetchUrl}
+              disabled={isEpisodeSelected || isExtracting || !sourceUrl.trim()}
+            >
+              Fetch
+            </Button>
+          </div>
+          
+          {isExtracting && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Reading document...
+            </p>
+          )}
+          {extractionError && (
+            <p className="text-sm text-red-500">{extractionError}</p>
+          )}
+          {errors.source && !extractionError && (
+            <p className="text-sm text-red-500">{errors.source.message}</p>
+          )}
+          
+          {/* Preview what will be sent to the generator */}
+          {source && !isExtracting && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg">
+              <p className="text-xs font-medium text-gray-600 dark:text-gray-300 mb-2">
+                {SOURCE_KIND_LABELS[source.kind]} · {source.fileName}
+                {source.text && ` · ${source.text.split(/\s+/).length} words`}
+              </p>
+              {source.text ? (
+                <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap text-xs text-gray-700 dark:text-gray-200 font-sans">
+                  {source.text}
+                </pre>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  PDFs are sent as-is and read by the generator.
+                </p>
+              )}
+            </div>
           )}
         </div>
         
@@ -1301,27 +842,17 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
             </Button>
             
             <div className="flex flex-col">
-              <div className="flex items-center">
-                <span className="text-sm font-medium mr-2">Script Status:</span>
-                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                  scriptStatus === "Approved" 
-                    ? "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100" 
-                    : "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100"
-                }`}>
-                  {scriptStatus === "Approved" ? (
-                    <CheckCircle className="w-3 h-3 mr-1" />
-                  ) : (
-                    <AlertCircle className="w-3 h-3 mr-1" />
-                  )}
-                  {scriptStatus}
-                </span>
-              </div>
+              <StatusBadge
+                column="episode_interview_script_status"
+                status={scriptStatus || "Pending"}
+                label="Script Status"
+              />
               
               {/* Show text files status if available */}
-              {textFilesStatus && renderStatusBadge(textFilesStatus, "Text Files")}
+              <StatusBadge column="episode_text_files_status" status={textFilesStatus} label="Text Files" />
               
               {/* Show podcast status if available */}
-              {podcastStatus && renderStatusBadge(podcastStatus, "Podcast")}
+              <StatusBadge column="podcast_status" status={podcastStatus} label="Podcast" />
             </div>
           </div>
         </div>
@@ -1338,8 +869,22 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
                         : "text-gray-400 dark:text-gray-500"
                     }`} />
                     <span className="text-sm font-medium text-gray-900 dark:text-white">{script.name}</span>
+                    {currentReviews[script.responseKey] && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        ({SCRIPT_DECISION_LABELS[currentReviews[script.responseKey]!.decision]})
+                      </span>
+                    )}
                   </div>
-                  {isScriptGenerated && isValidScriptLink(scriptLinks[script.responseKey]) ? (
+                  {isScriptGenerated && isValidScriptLink(scriptLinks[script.responseKey]) && followedEpisode && script.responseKey !== "episode_interview_file" ? (
+                    <button
+                      type="button"
+                      onClick={() => setViewerScriptKey(script.responseKey)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {script.readOnly ? "View (Read Only)" : "View or Update"}
+                      {openedScripts.includes(script.responseKey) && <span className="ml-1 text-green-600">✓</span>}
+                    </button>
+                  ) : isScriptGenerated && isValidScriptLink(scriptLinks[script.responseKey]) ? (
                     <a 
                       href={scriptLinks[script.responseKey] || '#'} 
                       target="_blank" 
@@ -1362,18 +907,55 @@ export function PodcastForm({ selectedScriptLinks, selectedEpisodeName }: Podcas
         <Button 
           onClick={handleApproveScripts}
           className="w-full"
-          variant={scriptStatus === "Approved" ? "outline" : "default"}
-          disabled={scriptStatus === "Approved" || !isScriptGenerated || !hasScript4}
-          title={!hasScript4 ? "Script #4 - Summary is required for approval" : ""}
+          variant={hasRequestedAudio ? "outline" : "default"}
+          disabled={
+            hasRequestedAudio ||
+            !isScriptGenerated ||
+            !hasScript4 ||
+            unopenedScriptCount > 0 ||
+            reviewedScriptStatus !== "Approved" ||
+            !canApprove
+          }
+          title={
+            !canApprove
+              ? "Only reviewers can approve scripts for audio"
+              : !hasScript4
+                ? "Script #4 - Summary is required for approval"
+                : unopenedScriptCount > 0
+                  ? "Open each script in the viewer before approving"
+                  : reviewedScriptStatus !== "Approved"
+                    ? "Approve each script in the viewer before generating audio"
+                    : ""
+          }
         >
-          {scriptStatus === "Approved" 
+          {hasRequestedAudio 
             ? "Audio Generation In Progress" 
             : !hasScript4 && isScriptGenerated
               ? "Script #4 Required for Audio Generation"
-              : "Generate Audio"}
+              : isScriptGenerated && unopenedScriptCount > 0
+                ? `Review ${unopenedScriptCount} More Script${unopenedScriptCount === 1 ? "" : "s"} to Continue`
+                : isScriptGenerated && unapprovedScriptCount > 0
+                  ? `Approve ${unapprovedScriptCount} More Script${unapprovedScriptCount === 1 ? "" : "s"} to Continue`
+                  : "Generate Audio"}
         </Button>
       </div>
 
+      <ScriptViewer
+        episode={followedEpisode}
+        scripts={scriptTypes
+          .filter(script => script.responseKey !== "episode_interview_file")
+          .map(script => ({ key: script.responseKey, name: script.name, readOnly: script.readOnly }))}
+        initialScriptKey={viewerScriptKey}
+        currentReviews={currentReviews}
+        isReviewLocked={hasRequestedAudio}
+        onReview={submitReview}
+        onRegenerate={handleRegenerateScript}
+        onScriptSaved={(scriptKey) => {
+          handleScriptEdited(scriptKey).catch(err => console.error('Error checking the edited script review:', err));
+        }}
+        onClose={() => setViewerScriptKey(null)}
+      />
+
       <ScriptApprovalDialog 
         isOpen={isApprovalDialogOpen} 
         onConfirm={confirmApproval}
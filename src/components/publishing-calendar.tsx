@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link } from "@/components/link";
+import { upsertEpisode, useEpisodeQuery } from "@/hooks/use-episodes";
+import { useToast } from "@/hooks/use-toast";
+import { config } from "@/lib/config";
+import { toDateInputValue } from "@/lib/episode-filters";
+import { getPublishInstant } from "@/lib/pipeline";
+import { getEpisodePath } from "@/lib/routes";
+import {
+  findCadenceGaps,
+  findScheduleConflicts,
+  getCalendarDays,
+  getCalendarRange,
+  getScheduledEpisodes,
+  isReadyToSchedule,
+  isScheduledBetween,
+  listEpisodesReadyToSchedule,
+  listEpisodesScheduledBetween,
+  rescheduleEpisode,
+  shiftAnchor,
+  startOfWeek,
+  type CalendarView,
+} from "@/lib/schedule";
+import { EpisodeConflictError, type Episode } from "@/lib/episodes";
+import { formatInTimeZone, getViewerTimeZone, getZonedParts } from "@/lib/timezone";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const episodeLabel = (episode: Episode): string => episode.episode_interview_file_name || `Episode ${episode.id}`;
+
+const showTimeZone = config.showTimeZone;
+
+// Month or week calendar of scheduled episodes; drag an episode onto another day to reschedule it
+export function PublishingCalendar() {
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+
+  // Only the shown days and the episodes waiting for a date are fetched
+  const { from, to } = useMemo(() => getCalendarRange(days, showTimeZone), [days]);
+  const shown = useEpisodeQuery(
+    `calendar:${from.toISOString()}:${to.toISOString()}`,
+    () => listEpisodesScheduledBetween(from, to),
+    (episode) => isScheduledBetween(episode, from, to, showTimeZone)
+  );
+  const ready = useEpisodeQuery("ready-to-schedule", listEpisodesReadyToSchedule, isReadyToSchedule);
+  const hasLoaded = shown.hasLoaded && ready.hasLoaded;
+
+  const scheduled = useMemo(() => getScheduledEpisodes(shown.episodes), [shown.episodes]);
+  const conflicts = useMemo(() => findScheduleConflicts(scheduled), [scheduled]);
+  const gaps = useMemo(() => findCadenceGaps(scheduled, days), [scheduled, days]);
+  const unscheduled = ready.episodes;
+
+  const today = toDateInputValue(new Date());
+
+  const handleDrop = async (day: Date) => {
+    const episode = [...shown.episodes, ...ready.episodes].find((e) => e.id === draggedId);
+    setDraggedId(null);
+    setDropDay(null);
+    if (!episode) return;
+
+    const current = getPublishInstant(episode);
+    if (current && getZonedParts(current, showTimeZone).date === toDateInputValue(day)) return;
+
+    setSavingId(episode.id);
+    try {
+      const updated = await rescheduleEpisode(episode, day);
+      upsertEpisode(updated);
+      toast({
+        title: "Episode rescheduled",
+        description: `"${episodeLabel(episode)}" now publishes on ${day.toLocaleDateString()}.`,
+      });
+    } catch (err) {
+      console.error("Error rescheduling episode:", err);
+      // Show the newer row so it can be dragged again from where it is now
+      if (err instanceof EpisodeConflictError) upsertEpisode(err.current);
+      toast({
+        title: "Reschedule failed",
+        description: err instanceof Error ? err.message : "Failed to reschedule the episode.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderChip = (episode: Episode, instant: Date | null) => (
+    <div
+      key={episode.id}
+      draggable={savingId !== episode.id}
+      onDragStart={() => setDraggedId(episode.id)}
+      onDragEnd={() => {
+        setDraggedId(null);
+        setDropDay(null);
+      }}
+      className={`text-xs rounded px-1.5 py-1 cursor-move truncate ${
+        conflicts.has(episode.id)
+          ? "bg-red-100 text-red-800 ring-1 ring-red-500 dark:bg-red-900/30 dark:text-red-300"
+          : "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300"
+      } ${draggedId === episode.id ? "opacity-50" : ""}`}
+      title={[
+        conflicts.has(episode.id) ? "Another episode is scheduled for the same time" : episodeLabel(episode),
+        instant && `${formatInTimeZone(instant, getViewerTimeZone())} your time`,
+      ]
+        .filter(Boolean)
+        .join("\n")}
+    >
+      {savingId === episode.id && <Loader2 className="h-3 w-3 inline animate-spin mr-1" />}
+      {instant && <span className="font-medium mr-1">{getZonedParts(instant, showTimeZone).time}</span>}
+      <Link to={getEpisodePath(episode.id)} className="hover:underline" onClick={(e) => e.stopPropagation()}>
+        {episodeLabel(episode)}
+      </Link>
+    </div>
+  );
+
+  if (!hasLoaded) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const title =
+    view === "month"
+      ? anchor.toLocaleDateString([], { month: "long", year: "numeric" })
+      : `${days[0].toLocaleDateString()} – ${days[6].toLocaleDateString()}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+              <CalendarDays className="w-5 h-5 mr-2" />
+              {title}
+            </h2>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Days and times in {showTimeZone}; hover an episode for your local time.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} title="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} title="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant={view === "month" ? "default" : "outline"} size="sm" onClick={() => setView("month")}>
+              Month
+            </Button>
+            <Button variant={view === "week" ? "default" : "outline"} size="sm" onClick={() => setView("week")}>
+              Week
+            </Button>
+          </div>
+        </div>
+
+        {(conflicts.size > 0 || gaps.length > 0) && (
+          <div className="mb-4 space-y-1 text-sm">
+            {conflicts.size > 0 && (
+              <p className="flex items-center text-red-700 dark:text-red-400">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                {conflicts.size} episodes share a publishing slot with another episode.
+              </p>
+            )}
+            {gaps.length > 0 && (
+              <p className="flex items-center text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                {gaps.length} week{gaps.length === 1 ? " has" : "s have"} no episode scheduled.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 dark:bg-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          {WEEKDAY_LABELS.map((label) => (
+            <div
+              key={label}
+              className="bg-gray-50 dark:bg-gray-800 px-2 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase"
+            >
+              {label}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = toDateInputValue(day);
+            const items = scheduled.filter((item) => item.day === key);
+            const isOtherMonth = view === "month" && day.getMonth() !== anchor.getMonth();
+            const isGapWeek = gaps.includes(toDateInputValue(startOfWeek(day)));
+
+            return (
+              <div
+                key={key}
+                onDragOver={(e) => {
+                  if (!draggedId) return;
+                  e.preventDefault();
+                  setDropDay(key);
+                }}
+                onDragLeave={() => setDropDay(null)}
+                onDrop={() => handleDrop(day)}
+                className={`bg-white dark:bg-gray-900 p-1.5 space-y-1 ${view === "week" ? "min-h-[16rem]" : "min-h-[6rem]"} ${
+                  isOtherMonth ? "opacity-50" : ""
+                } ${isGapWeek ? "bg-amber-50 dark:bg-amber-900/10" : ""} ${
+                  dropDay === key ? "ring-2 ring-inset ring-blue-500" : ""
+                }`}
+              >
+                <div
+                  className={`text-xs font-medium ${
+                    key === today ? "text-blue-600 dark:text-blue-400" : "text-gray-500 dark:text-gray-400"
+                  }`}
+                >
+                  {day.getDate()}
+                </div>
+                {items.map((item) => renderChip(item.episode, item.instant))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Ready to schedule</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Episodes with finished audio and no publish date. Drag one onto a day to schedule it.
+        </p>
+        {unscheduled.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Nothing waiting to be scheduled.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">{unscheduled.map((episode) => renderChip(episode, null))}</div>
+        )}
+      </div>
+    </div>
+  );
+}
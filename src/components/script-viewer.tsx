@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ExternalLink, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useOpenedScripts } from "@/hooks/use-opened-scripts";
+import { useToast } from "@/hooks/use-toast";
+import { loadScriptContent, REVIEWABLE_SCRIPT_KEYS, saveScriptContent, ScriptStorageError } from "@/lib/scripts";
+import {
+  ReviewCommentRequiredError,
+  SCRIPT_DECISION_LABELS,
+  type ScriptDecision,
+  type ScriptReview,
+} from "@/lib/script-reviews";
+import { can } from "@/lib/auth";
+import { config } from "@/lib/config";
+import type { Episode, ScriptLinkKey } from "@/lib/episodes";
+
+// Wait this long after the last keystroke before saving (in milliseconds)
+const AUTOSAVE_DELAY = 1500;
+
+type SaveState = "idle" | "pending" | "saving" | "saved" | "error";
+
+const SAVE_STATE_LABELS: Record<SaveState, string> = {
+  idle: "",
+  pending: "Unsaved changes",
+  saving: "Saving...",
+  saved: "All changes saved",
+  error: "Save failed",
+};
+
+export interface ViewerScript {
+  key: ScriptLinkKey;
+  name: string;
+  readOnly?: boolean;
+}
+
+interface ScriptViewerProps {
+  episode: Episode | null;
+  scripts: ViewerScript[];
+  initialScriptKey: ScriptLinkKey | null;
+  currentReviews: Partial<Record<ScriptLinkKey, ScriptReview>>;
+  // Decisions can no longer change once the scripts have been approved for audio
+  isReviewLocked: boolean;
+  onReview: (scriptKey: ScriptLinkKey, decision: ScriptDecision, comment: string | null) => Promise<void>;
+  onRegenerate: (scriptKey: ScriptLinkKey, comment: string | null) => Promise<void>;
+  // Called after an edit to a script was saved
+  onScriptSaved?: (scriptKey: ScriptLinkKey) => void;
+  onClose: () => void;
+}
+
+const DECISION_BUTTON_STYLES: Record<ScriptDecision, "default" | "outline" | "destructive"> = {
+  approved: "default",
+  changes_requested: "outline",
+  rejected: "destructive",
+};
+
+interface ScriptReviewPanelProps {
+  scriptKey: ScriptLinkKey;
+  review: ScriptReview | undefined;
+  isLocked: boolean;
+  // Only reviewers record decisions; everyone else may still ask for a new version
+  canReview: boolean;
+  onReview: ScriptViewerProps["onReview"];
+  onRegenerate: ScriptViewerProps["onRegenerate"];
+}
+
+// Decision buttons and comment box for the script being read
+function ScriptReviewPanel({ scriptKey, review, isLocked, canReview, onReview, onRegenerate }: ScriptReviewPanelProps) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setComment("");
+    setCommentError(null);
+  }, [scriptKey]);
+
+  const handleDecision = async (decision: ScriptDecision) => {
+    if (decision === "rejected" && !comment.trim()) {
+      setCommentError("Please explain why the script is rejected.");
+      return;
+    }
+
+    setIsBusy(true);
+    setCommentError(null);
+    try {
+      await onReview(scriptKey, decision, comment.trim() || null);
+      setComment("");
+    } catch (err) {
+      console.error("Error saving review:", err);
+      if (err instanceof ReviewCommentRequiredError) {
+        setCommentError(err.message);
+      } else {
+        toast({
+          title: "Review Error",
+          description: err instanceof Error ? err.message : "Failed to save the review.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsBusy(true);
+    try {
+      await onRegenerate(scriptKey, comment.trim() || review?.comment || null);
+      setComment("");
+      toast({
+        title: "Regeneration Requested",
+        description: "A new version of this script is being generated.",
+        variant: "default",
+      });
+    } catch (err) {
+      console.error("Error requesting regeneration:", err);
+      toast({
+        title: "Regeneration Error",
+        description: err instanceof Error ? err.message : "Failed to request a new version.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          Review: {review ? SCRIPT_DECISION_LABELS[review.decision] : "Not reviewed"}
+        </span>
+        {review?.comment && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 truncate ml-2" title={review.comment}>
+            "{review.comment}"
+          </span>
+        )}
+      </div>
+
+      {!isLocked && (
+        <>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={canReview ? "Comment (required when rejecting)" : "Comment"}
+            rows={2}
+            className="w-full p-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white resize-none"
+          />
+          {commentError && <p className="text-sm text-red-500">{commentError}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            {canReview && (Object.keys(SCRIPT_DECISION_LABELS) as ScriptDecision[]).map((decision) => (
+              <Button
+                key={decision}
+                size="sm"
+                variant={DECISION_BUTTON_STYLES[decision]}
+                onClick={() => handleDecision(decision)}
+                disabled={isBusy}
+              >
+                {decision === "approved" ? "Approve" : decision === "rejected" ? "Reject" : "Request Changes"}
+              </Button>
+            ))}
+            {config.regenerationWebhookUrl && (
+              <Button size="sm" variant="ghost" onClick={handleRegenerate} disabled={isBusy} title="Regenerate this script">
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Regenerate
+              </Button>
+            )}
+          </div>
+          {!canReview && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Only reviewers can approve, reject or request changes.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Read and edit an episode's scripts next to the document they were generated from
+export function ScriptViewer({
+  episode,
+  scripts,
+  initialScriptKey,
+  currentReviews,
+  isReviewLocked,
+  onReview,
+  onRegenerate,
+  onScriptSaved,
+  onClose,
+}: ScriptViewerProps) {
+  const { user } = useAuth();
+  const { markScriptOpened, openedScripts } = useOpenedScripts(episode?.id);
+  const [activeKey, setActiveKey] = useState<ScriptLinkKey | null>(initialScriptKey);
+  const [draft, setDraft] = useState("");
+  // Script the draft was loaded from; it is only ever saved back there, and dropped when another script is picked
+  const [draftKey, setDraftKey] = useState<ScriptLinkKey | null>(null);
+  const [isEditable, setIsEditable] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+
+  // Last text known to be in storage, and the pending autosave
+  const savedText = useRef("");
+  const saveTimeout = useRef<number | null>(null);
+  // Read through a ref so a new callback on every render doesn't restart the autosave timer
+  const onScriptSavedRef = useRef(onScriptSaved);
+  onScriptSavedRef.current = onScriptSaved;
+
+  const activeScript = scripts.find((script) => script.key === activeKey) || null;
+  const activeUrl = activeKey && episode ? episode[activeKey] : null;
+  const draftUrl = draftKey && episode ? episode[draftKey] : null;
+  const hasDraft = draftKey !== null && draftKey === activeKey;
+  // Scripts can't be changed once their review is locked, since an edit would invalidate the approvals
+  const isWritable = isEditable && !isReviewLocked;
+  const episodeId = episode?.id;
+
+  useEffect(() => {
+    setActiveKey(initialScriptKey);
+  }, [initialScriptKey]);
+
+  // Write the draft to storage straight away
+  const flushSave = useCallback(async () => {
+    if (saveTimeout.current !== null) {
+      window.clearTimeout(saveTimeout.current);
+      saveTimeout.current = null;
+    }
+
+    if (!hasDraft || !draftUrl || !isWritable || draft === savedText.current) return;
+
+    setSaveState("saving");
+    try {
+      await saveScriptContent(draftUrl, draft);
+      savedText.current = draft;
+      setSaveState("saved");
+      if (draftKey) onScriptSavedRef.current?.(draftKey);
+    } catch (err) {
+      console.error("Error saving script:", err);
+      setSaveState("error");
+    }
+  }, [hasDraft, draftKey, draftUrl, isWritable, draft]);
+
+  // Load the active script; it only counts as opened once the reviewer could read it
+  useEffect(() => {
+    if (!activeKey || !activeUrl) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    setSaveState("idle");
+    setDraftKey(null);
+    setIsEditable(false);
+
+    loadScriptContent(activeUrl)
+      .then((content) => {
+        if (isCancelled) return;
+        savedText.current = content.text;
+        setDraft(content.text);
+        setDraftKey(activeKey);
+        setIsEditable(content.editable);
+        if (episodeId) markScriptOpened(episodeId, activeKey);
+      })
+      .catch((err) => {
+        if (isCancelled) return;
+        console.error("Error loading script:", err);
+        setLoadError(err instanceof ScriptStorageError ? err.message : "The script could not be loaded.");
+        setDraft("");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [activeKey, activeUrl, episodeId, markScriptOpened]);
+
+  // Autosave shortly after the reviewer stops typing
+  useEffect(() => {
+    if (!hasDraft || !isWritable || draft === savedText.current) return;
+
+    setSaveState("pending");
+    saveTimeout.current = window.setTimeout(flushSave, AUTOSAVE_DELAY);
+
+    return () => {
+      if (saveTimeout.current !== null) {
+        window.clearTimeout(saveTimeout.current);
+        saveTimeout.current = null;
+      }
+    };
+  }, [draft, hasDraft, isWritable, flushSave]);
+
+  const handleSelectScript = async (key: ScriptLinkKey) => {
+    await flushSave();
+    setActiveKey(key);
+  };
+
+  const handleClose = async () => {
+    await flushSave();
+    onClose();
+  };
+
+  if (!initialScriptKey || !episode) return null;
+
+  // The source stored with the episode is shown when there is one: the article for web sources, the extracted
+  // text for files; PDFs aren't stored, so they fall back to the interview file
+  const storedSource = episode.source_document?.trim() || "";
+  const storedSourceUrl = /^https?:\/\//.test(storedSource) ? storedSource : null;
+  const sourceFileUrl = storedSourceUrl || (storedSource ? null : episode.episode_interview_file);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-7xl h-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Scripts for: {episode.episode_interview_file_name}
+          </h3>
+          <Button variant="ghost" size="sm" className="p-1 h-8 w-8" onClick={handleClose} title="Close">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex border-b border-gray-200 dark:border-gray-700 px-6 overflow-x-auto">
+          {scripts.map((script) => (
+            <button
+              key={script.key}
+              type="button"
+              onClick={() => handleSelectScript(script.key)}
+              disabled={!episode[script.key]}
+              className={`px-3 py-2 text-sm font-medium whitespace-nowrap border-b-2 ${
+                script.key === activeKey
+                  ? "border-blue-600 text-blue-600 dark:text-blue-400"
+                  : "border-transparent text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+              } disabled:text-gray-300 dark:disabled:text-gray-600 disabled:cursor-not-allowed`}
+            >
+              {script.name}
+              {openedScripts.includes(script.key) && <span className="ml-1 text-green-600">✓</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 p-6 min-h-0">
+          {/* Script editor */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {isWritable && !activeScript?.readOnly ? SAVE_STATE_LABELS[saveState] : "Read only"}
+              </span>
+              {activeUrl && (
+                <a
+                  href={activeUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 flex items-center"
+                >
+                  Open in new tab
+                  <ExternalLink className="ml-1 h-3 w-3" />
+                </a>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex-1 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-red-500">{loadError}</p>
+            ) : (
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                readOnly={!isWritable || activeScript?.readOnly}
+                className="flex-1 w-full p-3 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white resize-none"
+              />
+            )}
+
+            {activeKey && REVIEWABLE_SCRIPT_KEYS.includes(activeKey) && (
+              <ScriptReviewPanel
+                scriptKey={activeKey}
+                review={currentReviews[activeKey]}
+                isLocked={isReviewLocked}
+                canReview={can(user, "approve")}
+                onReview={onReview}
+                onRegenerate={onRegenerate}
+              />
+            )}
+          </div>
+
+          {/* Source document */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Source: {episode.source_document_file_name || "Episode interview file"}
+              </span>
+              {sourceFileUrl && (
+                <a
+                  href={sourceFileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 flex items-center"
+                >
+                  Open in new tab
+                  <ExternalLink className="ml-1 h-3 w-3" />
+                </a>
+              )}
+            </div>
+            {sourceFileUrl ? (
+              <iframe
+                src={sourceFileUrl}
+                title="Source document"
+                className="flex-1 w-full rounded-md border border-gray-300 dark:border-gray-600"
+              />
+            ) : storedSource ? (
+              <pre className="flex-1 overflow-y-auto whitespace-pre-wrap p-3 text-sm rounded-md border border-gray-300 dark:border-gray-600 font-sans text-gray-700 dark:text-gray-200">
+                {storedSource}
+              </pre>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No source document is available.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  clearConfigOverrides,
+  config,
+  configSchema,
+  saveConfigOverrides,
+  type UnvalidatedConfig,
+} from "@/lib/config";
+import { getViewerTimeZone, isValidTimeZone } from "@/lib/timezone";
+
+const settingsSchema = z.object({
+  generationWebhookUrl: z.string().url({ message: "Please enter a valid URL." }),
+  supabaseUrl: z.string().url({ message: "Please enter a valid URL." }),
+  supabaseAnonKey: z.string().min(1, { message: "Anon key is required." }),
+  maxWaitSeconds: z.coerce.number().int().min(10, { message: "Must be at least 10 seconds." }),
+  showTimeZone: z.string().trim().refine(isValidTimeZone, { message: "Please enter a time zone such as America/New_York." }),
+});
+
+type SettingsValues = z.infer<typeof settingsSchema>;
+
+interface SettingsFormProps {
+  // The configuration being edited - the running one, or the one rejected at startup
+  current?: UnvalidatedConfig;
+  onCancel?: () => void;
+}
+
+// Edit the runtime configuration - changes are stored locally and applied after a reload
+export function SettingsForm({ current = config, onCancel }: SettingsFormProps) {
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors },
+  } = useForm<SettingsValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: {
+      generationWebhookUrl: current.generationWebhookUrl,
+      supabaseUrl: current.supabaseUrl,
+      supabaseAnonKey: current.supabaseAnonKey,
+      maxWaitSeconds: Math.round(current.maxWaitTime / 1000),
+      showTimeZone: current.showTimeZone,
+    },
+  });
+
+  const onSubmit = (values: SettingsValues) => {
+    const overrides = {
+      generationWebhookUrl: values.generationWebhookUrl,
+      supabaseUrl: values.supabaseUrl,
+      supabaseAnonKey: values.supabaseAnonKey,
+      maxWaitTime: values.maxWaitSeconds * 1000,
+      showTimeZone: values.showTimeZone,
+    };
+
+    // Run the same checks as startup so an invalid profile combination can't be saved
+    const result = configSchema.safeParse({ ...current, ...overrides });
+    if (!result.success) {
+      setError("root", { message: result.error.issues.map((issue) => issue.message).join(" ") });
+      return;
+    }
+
+    saveConfigOverrides(overrides);
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    clearConfigOverrides();
+    window.location.reload();
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Profile: <span className="font-medium">{current.profile}</span>
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="generationWebhookUrl">Generation Webhook URL</Label>
+        <Input id="generationWebhookUrl" {...register("generationWebhookUrl")} />
+        {errors.generationWebhookUrl && (
+          <p className="text-sm text-red-500">{errors.generationWebhookUrl.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="supabaseUrl">Supabase URL</Label>
+        <Input id="supabaseUrl" {...register("supabaseUrl")} />
+        {errors.supabaseUrl && (
+          <p className="text-sm text-red-500">{errors.supabaseUrl.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="supabaseAnonKey">Supabase Anon Key</Label>
+        <Input id="supabaseAnonKey" {...register("supabaseAnonKey")} />
+        {errors.supabaseAnonKey && (
+          <p className="text-sm text-red-500">{errors.supabaseAnonKey.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="maxWaitSeconds">Max Wait Time (seconds)</Label>
+        <Input id="maxWaitSeconds" type="number" min={10} {...register("maxWaitSeconds")} />
+        {errors.maxWaitSeconds && (
+          <p className="text-sm text-red-500">{errors.maxWaitSeconds.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="showTimeZone">Show Time Zone</Label>
+        <Input id="showTimeZone" placeholder={getViewerTimeZone()} {...register("showTimeZone")} />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Publish dates and times are entered and shown in this zone. Yours is {getViewerTimeZone()}.
+        </p>
+        {errors.showTimeZone && (
+          <p className="text-sm text-red-500">{errors.showTimeZone.message}</p>
+        )}
+      </div>
+
+      {errors.root && <p className="text-sm text-red-500">{errors.root.message}</p>}
+
+      <div className="flex justify-between pt-2">
+        <Button type="button" variant="ghost" onClick={handleReset}>
+          Reset to Defaults
+        </Button>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit">Save and Reload</Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Settings</h3>
+        <SettingsForm onCancel={onClose} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthError, LOCAL_USERS, ROLE_LABELS } from "@/lib/auth";
+import { config } from "@/lib/config";
+
+const signInSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  // The local stand-in ignores passwords
+  password: config.authMode === "local" ? z.string() : z.string().min(1, { message: "Password is required." }),
+});
+
+type SignInValues = z.infer<typeof signInSchema>;
+
+// Shown instead of the app until someone signs in
+export function SignIn() {
+  const { signIn, error: sessionError } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<SignInValues>({
+    resolver: zodResolver(signInSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const onSubmit = async (values: SignInValues) => {
+    try {
+      await signIn(values.email, values.password);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError("root", { message: err.message });
+        return;
+      }
+      console.error("Error signing in:", err);
+      setError("root", { message: "Sign-in failed. Please try again." });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:p-8 max-w-md w-full">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white flex items-center">
+          <LogIn className="w-5 h-5 mr-2" />
+          Sign in to Marketing Execution Podcast
+        </h1>
+
+        {sessionError && (
+          <p className="mt-2 text-sm text-red-500">Your previous session couldn't be restored: {sessionError}</p>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="mt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" {...register("email")} />
+            {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
+          </div>
+
+          {config.authMode === "supabase" && (
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" autoComplete="current-password" {...register("password")} />
+              {errors.password && <p className="text-sm text-red-500">{errors.password.message}</p>}
+            </div>
+          )}
+
+          {errors.root && <p className="text-sm text-red-500">{errors.root.message}</p>}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? "Signing in..." : "Sign In"}
+          </Button>
+        </form>
+
+        {/* The local stand-in offers one-click sign-in as each role */}
+        {config.authMode === "local" && (
+          <div className="mt-6 space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-300">Local auth is enabled. Sign in as:</p>
+            <div className="flex flex-wrap gap-2">
+              {LOCAL_USERS.map((user) => (
+                <Button
+                  key={user.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isSubmitting}
+                  onClick={() => onSubmit({ email: user.email, password: "" })}
+                >
+                  {ROLE_LABELS[user.role]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
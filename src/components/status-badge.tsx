@@ -0,0 +1,100 @@
+import { AlertCircle, CheckCircle, Loader2, MessageSquare, XCircle } from "lucide-react";
+import type { Episode } from "@/lib/episodes";
+import {
+  getPipelineState,
+  isKnownStatus,
+  STAGE_LABELS,
+  type PipelineStage,
+  type StatusColumn,
+} from "@/lib/pipeline";
+
+// Colors shared by status and stage badges
+const BADGE_COLORS = {
+  gray: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100",
+  yellow: "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  green: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  red: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+};
+
+const badgeClassName = "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium whitespace-nowrap";
+
+// Color and icon for each known status value
+const STATUS_STYLES: Record<string, { color: keyof typeof BADGE_COLORS; icon: JSX.Element }> = {
+  Pending: { color: "yellow", icon: <AlertCircle className="w-3 h-3 mr-1" /> },
+  Processing: { color: "blue", icon: <Loader2 className="w-3 h-3 mr-1 animate-spin" /> },
+  Completed: { color: "green", icon: <CheckCircle className="w-3 h-3 mr-1" /> },
+  Approved: { color: "green", icon: <CheckCircle className="w-3 h-3 mr-1" /> },
+  "Changes Requested": { color: "yellow", icon: <MessageSquare className="w-3 h-3 mr-1" /> },
+  Rejected: { color: "red", icon: <XCircle className="w-3 h-3 mr-1" /> },
+  Failed: { color: "red", icon: <AlertCircle className="w-3 h-3 mr-1" /> },
+  Cancelled: { color: "gray", icon: <XCircle className="w-3 h-3 mr-1" /> },
+};
+
+// Color for each pipeline stage
+const STAGE_COLORS: Record<PipelineStage, keyof typeof BADGE_COLORS> = {
+  upload: "gray",
+  scripts_generating: "blue",
+  scripts_ready: "yellow",
+  approved: "green",
+  text_files: "blue",
+  audio: "blue",
+  scheduled: "yellow",
+  published: "green",
+  failed: "red",
+  cancelled: "gray",
+};
+
+interface StatusBadgeProps {
+  column: StatusColumn;
+  status: string | null | undefined;
+  label?: string;
+}
+
+// Badge for a single status column; values outside the pipeline model are shown as an error
+export function StatusBadge({ column, status, label }: StatusBadgeProps) {
+  if (!status) return null;
+
+  const isKnown = isKnownStatus(column, status);
+  const style = isKnown ? STATUS_STYLES[status] : null;
+
+  return (
+    <div className="flex items-center mt-1">
+      {label && <span className="text-sm font-medium mr-2">{label}:</span>}
+      {style ? (
+        <span className={`${badgeClassName} ${BADGE_COLORS[style.color]}`}>
+          {style.icon}
+          {status}
+        </span>
+      ) : (
+        <span
+          className={`${badgeClassName} ${BADGE_COLORS.red}`}
+          title={`"${status}" is not a valid value for ${column}`}
+        >
+          <AlertCircle className="w-3 h-3 mr-1" />
+          Unknown: {status}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Badge showing the derived pipeline stage of an episode
+export function StageBadge({ episode }: { episode: Partial<Episode> }) {
+  const { stage, error } = getPipelineState(episode);
+
+  if (error || !stage) {
+    return (
+      <span className={`${badgeClassName} ${BADGE_COLORS.red}`} title={error?.message}>
+        <AlertCircle className="w-3 h-3 mr-1" />
+        Invalid status
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${badgeClassName} ${BADGE_COLORS[STAGE_COLORS[stage]]}`}>
+      {STAGE_LABELS[stage]}
+    </span>
+  );
+}
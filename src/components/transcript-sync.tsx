@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Crosshair, Download, Loader2, Save, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { upsertEpisode } from "@/hooks/use-episodes";
+import { useToast } from "@/hooks/use-toast";
+import { formatTimestamp, type AudioKey } from "@/lib/audio-comments";
+import { EpisodeConflictError, updateEpisode, type Episode } from "@/lib/episodes";
+import { loadScriptContent } from "@/lib/scripts";
+import {
+  CAPTION_MIME_TYPES,
+  estimateCues,
+  findCueIndex,
+  getSavedCaptions,
+  parseWebVtt,
+  retimeCue,
+  splitTranscript,
+  toSrt,
+  toWebVtt,
+  type CaptionFormat,
+  type TranscriptCue,
+} from "@/lib/transcript-alignment";
+import { downloadTextFile } from "@/lib/utils";
+
+const toFileName = (episode: Episode, audioKey: AudioKey, format: CaptionFormat): string => {
+  const name = (episode.episode_interview_file_name || `episode-${episode.id}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${name}-${audioKey === "master_audio_file" ? "master" : "intro"}.${format}`;
+};
+
+interface TranscriptSyncProps {
+  episode: Episode;
+  audioKey: AudioKey;
+  // Length of the audio in seconds, 0 until it is known
+  duration: number;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+// Transcript that follows playback; click a line to jump to it, and sync lines by hand where the estimate drifts
+export function TranscriptSync({ episode, audioKey, duration, currentTime, onSeek }: TranscriptSyncProps) {
+  const { toast } = useToast();
+  const [scriptText, setScriptText] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cues, setCues] = useState<TranscriptCue[]>([]);
+  const [syncedIndexes, setSyncedIndexes] = useState<number[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  // Whether the line times come from the estimate rather than saved captions
+  const [isEstimated, setIsEstimated] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  const isMaster = audioKey === "master_audio_file";
+  const savedCaptions = isMaster ? getSavedCaptions(episode) : "";
+  const scriptUrl = isMaster && !savedCaptions ? episode.episode_interview_full_script : null;
+  const text = isMaster ? scriptText : episode.episode_intro_transcript;
+
+  // The master audio follows the full script, which is only loaded when no captions were saved yet
+  useEffect(() => {
+    setScriptText(null);
+    setLoadError(null);
+    if (!scriptUrl) return;
+
+    let isCancelled = false;
+    loadScriptContent(scriptUrl)
+      .then((content) => {
+        if (!isCancelled) setScriptText(content.text);
+      })
+      .catch((err) => {
+        console.error("Error loading transcript:", err);
+        if (!isCancelled) setLoadError(err instanceof Error ? err.message : "Failed to load the full script.");
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [scriptUrl]);
+
+  const estimatedCues = useMemo(
+    () => (text && duration > 0 ? estimateCues(splitTranscript(text), duration) : []),
+    [text, duration]
+  );
+
+  // Saved captions win over the estimate
+  useEffect(() => {
+    setCues(savedCaptions ? parseWebVtt(savedCaptions) : estimatedCues);
+    setIsEstimated(!savedCaptions);
+    setSyncedIndexes([]);
+    setIsDirty(false);
+  }, [savedCaptions, estimatedCues]);
+
+  const activeIndex = findCueIndex(cues, currentTime);
+
+  // Keep the current line in the middle of the list while it plays
+  useEffect(() => {
+    const list = listRef.current;
+    const line = list?.children[activeIndex] as HTMLElement | undefined;
+    if (!list || !line) return;
+    list.scrollTop = line.offsetTop - list.clientHeight / 2 + line.clientHeight / 2;
+  }, [activeIndex]);
+
+  const handleSyncLine = (index: number) => {
+    setCues(retimeCue(cues, index, currentTime, syncedIndexes, duration || currentTime));
+    setSyncedIndexes([...syncedIndexes.filter((synced) => synced !== index), index]);
+    setIsDirty(true);
+  };
+
+  const handleReestimate = () => {
+    setCues(estimatedCues);
+    setIsEstimated(true);
+    setSyncedIndexes([]);
+    setIsDirty(true);
+  };
+
+  const handleExport = (format: CaptionFormat) => {
+    downloadTextFile(
+      toFileName(episode, audioKey, format),
+      format === "vtt" ? toWebVtt(cues) : toSrt(cues),
+      CAPTION_MIME_TYPES[format]
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updated = await updateEpisode(
+        episode.id,
+        { master_audio_captions: toWebVtt(cues), master_audio_captions_audio_url: episode.master_audio_file?.trim() || null },
+        episode.version
+      );
+      upsertEpisode(updated);
+      toast({
+        title: "Captions saved",
+        description: "The alignment is now attached to the episode.",
+      });
+    } catch (err) {
+      if (err instanceof EpisodeConflictError) upsertEpisode(err.current);
+      console.error("Error saving captions:", err);
+      toast({
+        title: "Captions not saved",
+        description: err instanceof Error ? err.message : "Failed to save the captions.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>;
+  }
+
+  if (cues.length === 0 && text !== null && duration > 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">The transcript is empty.</p>;
+  }
+
+  if (cues.length === 0) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        {duration > 0 ? "Loading the transcript…" : "Waiting for the audio to load…"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mr-auto">
+          {isMaster ? "Full script" : "episode_intro_transcript"}
+          {savedCaptions && !isDirty && " · saved captions"}
+        </h4>
+        {(savedCaptions || syncedIndexes.length > 0) && estimatedCues.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={handleReestimate} title="Drop the manual syncing and spread lines evenly">
+            <Wand2 className="h-4 w-4 mr-1" />
+            Re-estimate
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => handleExport("vtt")}>
+          <Download className="h-4 w-4 mr-1" />
+          WebVTT
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleExport("srt")}>
+          <Download className="h-4 w-4 mr-1" />
+          SRT
+        </Button>
+        {isMaster && (
+          <Button size="sm" onClick={handleSave} disabled={isSaving || (!isDirty && !!savedCaptions)}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save Captions
+          </Button>
+        )}
+      </div>
+
+      <ol
+        ref={listRef}
+        className="relative max-h-[28rem] overflow-y-auto rounded bg-gray-50 dark:bg-gray-900 p-2 text-sm space-y-0.5"
+      >
+        {cues.map((cue, index) => (
+          <li
+            key={index}
+            onClick={() => onSeek(cue.start)}
+            className={`group flex items-start gap-2 rounded px-2 py-1 cursor-pointer ${
+              index === activeIndex
+                ? "bg-blue-100 text-blue-900 dark:bg-blue-900/40 dark:text-blue-100"
+                : "text-gray-800 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+            }`}
+          >
+            <span
+              className={`font-mono text-xs mt-0.5 tabular-nums ${
+                syncedIndexes.includes(index) ? "text-green-700 dark:text-green-400" : "text-gray-400"
+              }`}
+            >
+              {formatTimestamp(cue.start)}
+            </span>
+            <span className="flex-1">{cue.text}</span>
+            <button
+              type="button"
+              className="invisible group-hover:visible text-gray-400 hover:text-blue-600"
+              title={`Start this line at ${formatTimestamp(currentTime)}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleSyncLine(index);
+              }}
+            >
+              <Crosshair className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {isEstimated ? "Line times are estimated from their length." : "Line times come from the saved captions."} When a
+        line starts playing at a different point, use its sync button to pin it there; the lines around it adjust.
+      </p>
+    </div>
+  );
+}
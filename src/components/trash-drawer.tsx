@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { upsertEpisode } from "@/hooks/use-episodes";
+import { useToast } from "@/hooks/use-toast";
+import { can } from "@/lib/auth";
+import {
+  TRASH_RETENTION_DAYS,
+  getPurgeDate,
+  listTrashedEpisodes,
+  purgeEpisodes,
+  restoreEpisodes,
+  type Episode,
+} from "@/lib/episodes";
+
+interface TrashDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Episodes moved to the trash, with bulk restore and permanent purge
+export function TrashDrawer({ isOpen, onClose }: TrashDrawerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [trashed, setTrashed] = useState<Episode[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const canManage = can(user, "delete");
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const episodes = await listTrashedEpisodes();
+      setTrashed(episodes);
+      // Drop selections for episodes that were restored or purged elsewhere
+      setSelectedIds((current) => current.filter((id) => episodes.some((episode) => episode.id === id)));
+    } catch (err) {
+      console.error("Error loading trash:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the trash.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTrash();
+    } else {
+      setSelectedIds([]);
+    }
+  }, [isOpen, loadTrash]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id]);
+  };
+
+  const isAllSelected = trashed.length > 0 && selectedIds.length === trashed.length;
+
+  const toggleAll = () => {
+    setSelectedIds(isAllSelected ? [] : trashed.map((episode) => episode.id));
+  };
+
+  const handleRestore = async () => {
+    setIsBusy(true);
+    try {
+      const restored = await restoreEpisodes(selectedIds);
+
+      // Put the episodes back into the shared store without waiting for the realtime events
+      restored.forEach((episode) => upsertEpisode(episode));
+
+      setTrashed((current) => current.filter((episode) => !restored.some((r) => r.id === episode.id)));
+      setSelectedIds([]);
+      toast({
+        title: "Episodes restored",
+        description: `${restored.length} episode${restored.length === 1 ? " was" : "s were"} moved back to the episodes list.`,
+      });
+    } catch (err) {
+      console.error("Error restoring episodes:", err);
+      toast({
+        title: "Restore failed",
+        description: err instanceof Error ? err.message : "Failed to restore the episodes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    const count = selectedIds.length;
+    if (!confirm(`Permanently delete ${count} episode${count === 1 ? "" : "s"}? This can't be undone from the trash.`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await purgeEpisodes(selectedIds);
+      setTrashed((current) => current.filter((episode) => !selectedIds.includes(episode.id)));
+      setSelectedIds([]);
+      toast({
+        title: "Episodes purged",
+        description: `${count} episode${count === 1 ? " was" : "s were"} permanently deleted.`,
+      });
+    } catch (err) {
+      console.error("Error purging episodes:", err);
+      toast({
+        title: "Purge failed",
+        description: err instanceof Error ? err.message : "Failed to purge the episodes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md h-full p-6 overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Trash2 className="h-5 w-5 mr-2" />
+            Trash
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Episodes are purged automatically {TRASH_RETENTION_DAYS} days after they were moved to the trash.
+        </p>
+
+        {canManage && trashed.length > 0 && (
+          <div className="flex items-center justify-between mb-3">
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" className="mr-2" checked={isAllSelected} onChange={toggleAll} />
+              Select all
+            </label>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handleRestore} disabled={isBusy || selectedIds.length === 0}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Restore
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handlePurge} disabled={isBusy || selectedIds.length === 0}>
+                Purge
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading && trashed.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : trashed.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">The trash is empty.</p>
+        ) : (
+          <ul className="space-y-3">
+            {trashed.map((episode) => {
+              const purgeDate = getPurgeDate(episode);
+              return (
+                <li key={episode.id} className="flex items-start border-b border-gray-200 dark:border-gray-700 pb-3">
+                  {canManage && (
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selectedIds.includes(episode.id)}
+                      onChange={() => toggleSelected(episode.id)}
+                    />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {episode.episode_interview_file_name || `Episode ${episode.id}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Trashed {episode.deleted_at ? new Date(episode.deleted_at).toLocaleString() : ""}
+                      {episode.deleted_by ? ` by ${episode.deleted_by}` : ""}
+                    </p>
+                    {purgeDate && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Purged after {purgeDate.toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
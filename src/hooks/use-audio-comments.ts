@@ -0,0 +1,78 @@
+import * as React from "react";
+import {
+  createAudioComment,
+  deleteAudioComment,
+  listAudioComments,
+  subscribeToAudioComments,
+  type AudioComment,
+  type AudioKey,
+} from "@/lib/audio-comments";
+import type { Episode } from "@/lib/episodes";
+
+// In playback order, without the duplicate a realtime echo of our own insert would create
+const mergeComment = (comments: AudioComment[], comment: AudioComment) =>
+  comments.some((c) => c.id === comment.id)
+    ? comments
+    : [...comments, comment].sort((a, b) => a.position_seconds - b.position_seconds);
+
+// Audio comments for one episode, kept live while the episode is shown
+function useAudioComments(episode: Episode | null) {
+  const [comments, setComments] = React.useState<AudioComment[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const episodeId = episode?.id;
+
+  React.useEffect(() => {
+    setComments([]);
+    if (!episodeId) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+
+    listAudioComments(episodeId)
+      .then((loaded) => {
+        if (!isCancelled) setComments(loaded);
+      })
+      .catch((err) => console.error("Error loading audio comments:", err))
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    const unsubscribe = subscribeToAudioComments(
+      episodeId,
+      (comment) => setComments((current) => mergeComment(current, comment)),
+      (commentId) => setComments((current) => current.filter((comment) => comment.id !== commentId))
+    );
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [episodeId]);
+
+  const addComment = async (audioKey: AudioKey, positionSeconds: number, text: string) => {
+    if (!episode) return;
+
+    const comment = await createAudioComment({
+      episode_id: episode.id,
+      audio_key: audioKey,
+      audio_url: episode[audioKey],
+      position_seconds: positionSeconds,
+      comment: text,
+    });
+    setComments((current) => mergeComment(current, comment));
+  };
+
+  const removeComment = async (comment: AudioComment) => {
+    await deleteAudioComment(comment);
+    setComments((current) => current.filter((c) => c.id !== comment.id));
+  };
+
+  return {
+    comments,
+    isLoading,
+    addComment,
+    removeComment,
+  };
+}
+
+export { useAudioComments };
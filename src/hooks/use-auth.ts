@@ -0,0 +1,106 @@
+import * as React from "react";
+import {
+  getSessionUser,
+  signIn as signInUser,
+  signOut as signOutUser,
+  subscribeToAuthChanges,
+  type AppUser,
+} from "@/lib/auth";
+
+type Action =
+  | {
+      type: "SET_USER";
+      user: AppUser | null;
+    }
+  | {
+      type: "SET_ERROR";
+      error: string;
+    };
+
+interface State {
+  user: AppUser | null;
+  // True until the stored session has been checked
+  isLoading: boolean;
+  error: string | null;
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "SET_USER":
+      return {
+        ...state,
+        user: action.user,
+        isLoading: false,
+        error: null,
+      };
+
+    case "SET_ERROR":
+      return {
+        ...state,
+        isLoading: false,
+        error: action.error,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { user: null, isLoading: true, error: null };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Restore the session once and follow it for the lifetime of the page
+let hasStarted = false;
+
+const startAuth = () => {
+  if (hasStarted) return;
+  hasStarted = true;
+
+  getSessionUser()
+    .then((user) => dispatch({ type: "SET_USER", user }))
+    .catch((err) => {
+      console.error("Error restoring session:", err);
+      dispatch({ type: "SET_ERROR", error: err instanceof Error ? err.message : "Failed to restore session" });
+    });
+
+  subscribeToAuthChanges((user) => dispatch({ type: "SET_USER", user }));
+};
+
+async function signIn(email: string, password: string) {
+  const user = await signInUser(email, password);
+  dispatch({ type: "SET_USER", user });
+}
+
+async function signOut() {
+  await signOutUser();
+  dispatch({ type: "SET_USER", user: null });
+}
+
+function useAuth() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    setState(memoryState);
+    startAuth();
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    signIn,
+    signOut,
+  };
+}
+
+export { useAuth, signIn, signOut };
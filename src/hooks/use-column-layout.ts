@@ -0,0 +1,127 @@
+import * as React from "react";
+import { DEFAULT_COLUMN_LAYOUT, type ColumnLayout } from "@/lib/column-layout";
+
+// Key under which column layouts are persisted in localStorage
+const STORAGE_KEY = "mep.column-layout";
+
+type Action =
+  | {
+      type: "SET_LAYOUT";
+      userId: string;
+      layout: ColumnLayout;
+    }
+  | {
+      type: "RESET_LAYOUT";
+      userId: string;
+    }
+  | {
+      type: "SYNC_LAYOUTS";
+      layouts: Record<string, ColumnLayout>;
+    };
+
+interface State {
+  // Column layout per user id
+  layouts: Record<string, ColumnLayout>;
+}
+
+const loadLayouts = (): Record<string, ColumnLayout> => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+
+    const layouts = JSON.parse(stored);
+    return typeof layouts === "object" && layouts !== null && !Array.isArray(layouts) ? layouts : {};
+  } catch (err) {
+    console.error("Error loading column layout:", err);
+    return {};
+  }
+};
+
+const saveLayouts = (layouts: Record<string, ColumnLayout>) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  } catch (err) {
+    console.error("Error saving column layout:", err);
+  }
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "SET_LAYOUT":
+      return {
+        ...state,
+        layouts: {
+          ...state.layouts,
+          [action.userId]: action.layout,
+        },
+      };
+
+    case "RESET_LAYOUT": {
+      const layouts = { ...state.layouts };
+      delete layouts[action.userId];
+      return {
+        ...state,
+        layouts,
+      };
+    }
+
+    case "SYNC_LAYOUTS":
+      return {
+        ...state,
+        layouts: action.layouts,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { layouts: loadLayouts() };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+
+  if (action.type !== "SYNC_LAYOUTS") {
+    saveLayouts(memoryState.layouts);
+  }
+
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Pick up layout changes made in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) {
+    dispatch({ type: "SYNC_LAYOUTS", layouts: loadLayouts() });
+  }
+});
+
+function useColumnLayout(userId: string | null | undefined) {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  // Layouts saved before a field existed are completed with the defaults
+  const stored = userId ? state.layouts[userId] : undefined;
+  const layout = React.useMemo<ColumnLayout>(() => ({ ...DEFAULT_COLUMN_LAYOUT, ...(stored || {}) }), [stored]);
+
+  return {
+    layout,
+    setLayout: (next: ColumnLayout) => {
+      if (userId) dispatch({ type: "SET_LAYOUT", userId, layout: next });
+    },
+    resetLayout: () => {
+      if (userId) dispatch({ type: "RESET_LAYOUT", userId });
+    },
+  };
+}
+
+export { useColumnLayout };
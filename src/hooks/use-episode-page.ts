@@ -0,0 +1,253 @@
+import * as React from "react";
+import { subscribeToEpisodeStore, type EpisodeStoreEvent } from "@/hooks/use-episodes";
+import type { Episode } from "@/lib/episodes";
+import { matchesFilters, type EpisodeFilters } from "@/lib/episode-filters";
+import { compareEpisodes } from "@/lib/episode-sort";
+import { EPISODE_PAGE_SIZE, listEpisodesPage, type EpisodeQuery } from "@/lib/episode-query";
+
+// Realtime changes arrive in bursts while n8n works, so reloads wait for them to settle (in milliseconds)
+const RELOAD_DELAY = 500;
+
+interface State {
+  // The rows fetched so far, in query order
+  episodes: Episode[];
+  matchingCount: number;
+  totalCount: number;
+  hasLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+  // Episodes that were deleted or trashed while the list was open
+  removedIds: string[];
+}
+
+const INITIAL_STATE: State = {
+  episodes: [],
+  matchingCount: 0,
+  totalCount: 0,
+  hasLoaded: false,
+  isLoading: false,
+  error: null,
+  removedIds: [],
+};
+
+// Add rows to the end of the list, skipping rows that moved into an earlier page meanwhile
+const appendEpisodes = (episodes: Episode[], more: Episode[]): Episode[] => {
+  const ids = new Set(episodes.map((episode) => episode.id));
+  return [...episodes, ...more.filter((episode) => !ids.has(episode.id))];
+};
+
+// How a row looked when the counts last took it into account: the loaded row, null for a row already taken
+// off the list, the store's copy, or undefined when nothing is known about it
+const getCountedRow = (state: State, event: Exclude<EpisodeStoreEvent, { type: "resync" }>): Episode | null | undefined => {
+  if (event.type === "insert") return null;
+
+  const episodeId = event.type === "upsert" ? event.episode.id : event.episodeId;
+  const loaded = state.episodes.find((episode) => episode.id === episodeId);
+  if (loaded) return loaded;
+  if (state.removedIds.includes(episodeId)) return null;
+  return event.previous ?? undefined;
+};
+
+// How much a row adds to the matching and total counts
+const countRow = (episode: Episode | null, filters: EpisodeFilters): { matching: number; total: number } =>
+  !episode || episode.deleted_at
+    ? { matching: 0, total: 0 }
+    : { matching: matchesFilters(episode, filters) ? 1 : 0, total: 1 };
+
+// Take a row off the list after it was deleted or trashed
+const removeRow = (state: State, episodeId: string, query: EpisodeQuery): State => {
+  const loaded = state.episodes.find((episode) => episode.id === episodeId) || null;
+  const counted = countRow(loaded, query.filters);
+
+  return {
+    ...state,
+    episodes: state.episodes.filter((episode) => episode.id !== episodeId),
+    matchingCount: state.matchingCount - counted.matching,
+    totalCount: state.totalCount - counted.total,
+    removedIds: state.removedIds.includes(episodeId) ? state.removedIds : [...state.removedIds, episodeId],
+  };
+};
+
+// Patch the list and its counts with a realtime change, without fetching anything
+const applyStoreEvent = (
+  state: State,
+  event: Exclude<EpisodeStoreEvent, { type: "resync" }>,
+  query: EpisodeQuery
+): State => {
+  const previous = getCountedRow(state, event);
+  if (previous === undefined) return state;
+
+  const next = event.type === "remove" ? null : event.episode;
+  const episodeId = next ? next.id : previous?.id;
+  if (!next || next.deleted_at) {
+    return episodeId ? removeRow(state, episodeId, query) : state;
+  }
+
+  const before = countRow(previous, query.filters);
+  const after = countRow(next, query.filters);
+  const matchingCount = state.matchingCount + after.matching - before.matching;
+  const others = state.episodes.filter((episode) => episode.id !== next.id);
+
+  // A matching row goes where the sort puts it, unless it sorts after the loaded rows while more are still to come
+  const last = others[others.length - 1];
+  const isPlaced =
+    after.matching === 1 &&
+    (!last || others.length >= matchingCount - 1 || compareEpisodes(next, last, query.sort) < 0);
+
+  return {
+    ...state,
+    episodes: isPlaced ? [...others, next].sort((a, b) => compareEpisodes(a, b, query.sort)) : others,
+    matchingCount,
+    totalCount: state.totalCount + after.total - before.total,
+    // A restored row is back on the list
+    removedIds: state.removedIds.filter((id) => id !== next.id),
+  };
+};
+
+// Episodes matching a query, fetched from the server one page at a time and kept up to date through realtime
+function useEpisodePage(query: EpisodeQuery) {
+  const [state, setState] = React.useState<State>(INITIAL_STATE);
+
+  // Responses of requests made for an earlier query or before a reload are dropped
+  const generation = React.useRef(0);
+  const loadedCount = React.useRef(0);
+  const reloadTimeout = React.useRef<number | null>(null);
+
+  const queryKey = JSON.stringify(query);
+  const queryRef = React.useRef(query);
+  queryRef.current = query;
+
+  // Fetch the first rows again, as many as are shown now
+  const reload = React.useCallback(async (limit: number = Math.max(loadedCount.current, EPISODE_PAGE_SIZE)) => {
+    const requestGeneration = ++generation.current;
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const page = await listEpisodesPage(JSON.parse(queryKey) as EpisodeQuery, 0, limit);
+      if (requestGeneration !== generation.current) return;
+
+      loadedCount.current = page.episodes.length;
+      setState((prev) => ({
+        ...prev,
+        ...page,
+        hasLoaded: true,
+        isLoading: false,
+      }));
+    } catch (err) {
+      if (requestGeneration !== generation.current) return;
+
+      console.error("Error fetching episodes:", err);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: err instanceof Error ? err.message : "Failed to fetch data",
+      }));
+    }
+  }, [queryKey]);
+
+  // Start over whenever the filters or the sort change
+  React.useEffect(() => {
+    loadedCount.current = 0;
+    reload(EPISODE_PAGE_SIZE);
+  }, [reload]);
+
+  const loadMore = async () => {
+    if (state.isLoading || state.episodes.length >= state.matchingCount) return;
+
+    const requestGeneration = generation.current;
+    setState((prev) => ({ ...prev, isLoading: true }));
+
+    try {
+      const page = await listEpisodesPage(JSON.parse(queryKey) as EpisodeQuery, state.episodes.length, EPISODE_PAGE_SIZE);
+      if (requestGeneration !== generation.current) return;
+
+      setState((prev) => {
+        const episodes = appendEpisodes(prev.episodes, page.episodes);
+        loadedCount.current = episodes.length;
+        return { ...prev, ...page, episodes, isLoading: false };
+      });
+    } catch (err) {
+      if (requestGeneration !== generation.current) return;
+
+      console.error("Error fetching more episodes:", err);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: err instanceof Error ? err.message : "Failed to fetch data",
+      }));
+    }
+  };
+
+  // Store events outlive query changes, so they reach the current state and reload through refs
+  const stateRef = React.useRef(state);
+  stateRef.current = state;
+  const reloadRef = React.useRef(reload);
+  reloadRef.current = reload;
+
+  const scheduleReload = React.useCallback(() => {
+    if (reloadTimeout.current !== null) {
+      window.clearTimeout(reloadTimeout.current);
+    }
+    reloadTimeout.current = window.setTimeout(() => {
+      reloadTimeout.current = null;
+      reloadRef.current();
+    }, RELOAD_DELAY);
+  }, []);
+
+  // Put a row returned by a local write into the list straight away; a row that no longer matches the filters
+  // leaves the list, and a changed row moves to where the sort puts it
+  const upsertEpisode = React.useCallback((episode: Episode) => {
+    setState((prev) => {
+      const loaded = prev.episodes.find((e) => e.id === episode.id);
+      return applyStoreEvent(
+        prev,
+        { type: "upsert", episode: loaded ? { ...loaded, ...episode } : episode, previous: null },
+        queryRef.current
+      );
+    });
+  }, []);
+
+  const removeEpisode = React.useCallback((episodeId: string) => {
+    setState((prev) => removeRow(prev, episodeId, queryRef.current));
+  }, []);
+
+  // Patch rows and counts from the shared realtime channel; a change to a row the list knows nothing about
+  // can't be placed, so only then, and after missed changes, the shown rows are fetched again
+  React.useEffect(() => {
+    const unsubscribe = subscribeToEpisodeStore((event) => {
+      if (event.type === "resync") {
+        scheduleReload();
+        return;
+      }
+
+      if (event.type !== "insert" && getCountedRow(stateRef.current, event) === undefined) {
+        scheduleReload();
+        return;
+      }
+
+      setState((prev) => applyStoreEvent(prev, event, queryRef.current));
+
+      // A load in flight may have read the row before the change
+      if (stateRef.current.isLoading) scheduleReload();
+    });
+
+    return () => {
+      unsubscribe();
+      if (reloadTimeout.current !== null) {
+        window.clearTimeout(reloadTimeout.current);
+        reloadTimeout.current = null;
+      }
+    };
+  }, [scheduleReload]);
+
+  return {
+    ...state,
+    hasMore: state.episodes.length < state.matchingCount,
+    refresh: () => reload(),
+    loadMore,
+    upsertEpisode,
+    removeEpisode,
+  };
+}
+
+export { useEpisodePage };
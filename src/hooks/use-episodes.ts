@@ -0,0 +1,538 @@
+import * as React from "react";
+import { config } from "@/lib/config";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import {
+  findEpisodeByName,
+  getEpisodeById,
+  listEpisodesByName,
+  subscribeToEpisodeChanges,
+  type Episode,
+  type RealtimeChannelStatus,
+} from "@/lib/episodes";
+
+// Backoff for polling while the realtime channel is down (in milliseconds)
+const POLL_INITIAL_DELAY = 2000;
+const POLL_MAX_DELAY = Math.max(config.pollMaxDelay, POLL_INITIAL_DELAY);
+
+// "live" while realtime events arrive, "polling" while falling back to periodic reloads
+export type SyncConnection = "connecting" | "live" | "polling";
+
+// Loading state of one query
+interface QueryStatus {
+  hasLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+  // Change count when the current load started, to tell which rows changed while it was in flight
+  loadStartedAt: number;
+}
+
+type Action =
+  | {
+      type: "LOAD_START";
+      key: string;
+    }
+  | {
+      type: "LOAD_SUCCESS";
+      key: string;
+      episodes: Episode[];
+      matches: (episode: Episode) => boolean;
+    }
+  | {
+      type: "LOAD_ERROR";
+      key: string;
+      error: string;
+    }
+  | {
+      type: "FORGET_QUERY";
+      key: string;
+      // Whether a cached row is still wanted by one of the remaining queries
+      isKept: (episode: Episode) => boolean;
+    }
+  | {
+      type: "UPSERT_EPISODE";
+      episode: Episode;
+    }
+  | {
+      type: "REMOVE_EPISODE";
+      episodeId: string;
+    }
+  | {
+      type: "SET_CONNECTION";
+      connection: SyncConnection;
+    };
+
+interface State {
+  // Rows fetched by the mounted queries or received since, trashed rows included, by id
+  episodes: Record<string, Episode>;
+  // Rows deleted from the table, so a snapshot read before the delete doesn't bring them back
+  deletedIds: Record<string, true>;
+  // Number of changes applied so far, and the change that last touched each row
+  changeCount: number;
+  changedAt: Record<string, number>;
+  queries: Record<string, QueryStatus>;
+  connection: SyncConnection;
+}
+
+const EMPTY_QUERY_STATUS: QueryStatus = { hasLoaded: false, isLoading: false, error: null, loadStartedAt: 0 };
+
+// Keep whichever copy of a row the database wrote last, preferring the later arrival on a tie
+const newerEpisode = (a: Episode, b: Episode): Episode => ((b.version ?? 0) >= (a.version ?? 0) ? b : a);
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "LOAD_START":
+      return {
+        ...state,
+        queries: {
+          ...state.queries,
+          [action.key]: {
+            ...(state.queries[action.key] || EMPTY_QUERY_STATUS),
+            isLoading: true,
+            error: null,
+            loadStartedAt: state.changeCount,
+          },
+        },
+      };
+
+    case "LOAD_SUCCESS": {
+      const status = state.queries[action.key];
+      if (!status) return state;
+
+      const fetchedIds = new Set(action.episodes.map((episode) => episode.id));
+      const episodes = { ...state.episodes };
+
+      // A cached row the query no longer returns is out of date, unless a change to it arrived during the load
+      Object.values(state.episodes).forEach((episode) => {
+        if (
+          !fetchedIds.has(episode.id) &&
+          action.matches(episode) &&
+          (state.changedAt[episode.id] ?? 0) <= status.loadStartedAt
+        ) {
+          delete episodes[episode.id];
+        }
+      });
+
+      // Changes received during the load are kept when they are newer than the snapshot
+      action.episodes.forEach((episode) => {
+        if (state.deletedIds[episode.id]) return;
+        const cached = episodes[episode.id];
+        episodes[episode.id] = cached ? newerEpisode(cached, episode) : episode;
+      });
+
+      return {
+        ...state,
+        episodes,
+        queries: {
+          ...state.queries,
+          [action.key]: { ...status, hasLoaded: true, isLoading: false, error: null },
+        },
+      };
+    }
+
+    case "LOAD_ERROR": {
+      const status = state.queries[action.key];
+      if (!status) return state;
+
+      return {
+        ...state,
+        queries: {
+          ...state.queries,
+          [action.key]: { ...status, isLoading: false, error: action.error },
+        },
+      };
+    }
+
+    case "FORGET_QUERY": {
+      const episodes = Object.fromEntries(
+        Object.entries(state.episodes).filter(([, episode]) => action.isKept(episode))
+      );
+
+      return {
+        ...state,
+        episodes,
+        changedAt: Object.fromEntries(Object.entries(state.changedAt).filter(([id]) => id in episodes)),
+        queries: withoutKey(state.queries, action.key),
+      };
+    }
+
+    case "UPSERT_EPISODE": {
+      const cached = state.episodes[action.episode.id];
+      const changeCount = state.changeCount + 1;
+
+      return {
+        ...state,
+        episodes: {
+          ...state.episodes,
+          [action.episode.id]: cached ? newerEpisode(cached, { ...cached, ...action.episode }) : action.episode,
+        },
+        // An undeleted row is written again under its old id
+        deletedIds: withoutKey(state.deletedIds, action.episode.id),
+        changeCount,
+        changedAt: { ...state.changedAt, [action.episode.id]: changeCount },
+      };
+    }
+
+    case "REMOVE_EPISODE": {
+      const changeCount = state.changeCount + 1;
+
+      return {
+        ...state,
+        episodes: withoutKey(state.episodes, action.episodeId),
+        deletedIds: { ...state.deletedIds, [action.episodeId]: true },
+        changeCount,
+        changedAt: { ...state.changedAt, [action.episodeId]: changeCount },
+      };
+    }
+
+    case "SET_CONNECTION":
+      return {
+        ...state,
+        connection: action.connection,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = {
+  episodes: {},
+  deletedIds: {},
+  changeCount: 0,
+  changedAt: {},
+  queries: {},
+  connection: "connecting",
+};
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// A realtime change as seen by the store, with the cached copy of a changed row from before it (null if none)
+export type EpisodeStoreEvent =
+  | {
+      type: "insert";
+      episode: Episode;
+    }
+  | {
+      type: "upsert";
+      episode: Episode;
+      previous: Episode | null;
+    }
+  | {
+      type: "remove";
+      episodeId: string;
+      previous: Episode | null;
+    }
+  | {
+      // Changes may have been missed, after reconnecting or while polling
+      type: "resync";
+    };
+
+const eventListeners: Array<(event: EpisodeStoreEvent) => void> = [];
+
+const emit = (event: EpisodeStoreEvent) => {
+  eventListeners.forEach((listener) => {
+    listener(event);
+  });
+};
+
+// A mounted query: how to fetch its rows from the server, and which cached rows belong to it
+interface RegisteredQuery {
+  fetchEpisodes: () => Promise<Episode[]>;
+  matches: (episode: Episode) => boolean;
+  subscribers: number;
+}
+
+const activeQueries = new Map<string, RegisteredQuery>();
+
+// Responses of loads made before a newer load of the same query are dropped
+const queryGenerations = new Map<string, number>();
+
+// Whether any mounted query wants a row
+const isWatched = (episode: Episode): boolean =>
+  [...activeQueries.values()].some((query) => query.matches(episode));
+
+async function runQuery(key: string) {
+  const query = activeQueries.get(key);
+  if (!query) return;
+
+  const generation = (queryGenerations.get(key) || 0) + 1;
+  queryGenerations.set(key, generation);
+  dispatch({ type: "LOAD_START", key });
+
+  try {
+    const episodes = await query.fetchEpisodes();
+    if (queryGenerations.get(key) !== generation) return;
+    dispatch({ type: "LOAD_SUCCESS", key, episodes, matches: query.matches });
+  } catch (err) {
+    if (queryGenerations.get(key) !== generation) return;
+    console.error("Error fetching episodes:", err);
+    dispatch({
+      type: "LOAD_ERROR",
+      key,
+      error: err instanceof Error ? err.message : "Failed to fetch data",
+    });
+  }
+}
+
+// Reload every mounted query - used after reconnecting and while polling
+async function refreshEpisodes() {
+  await Promise.all([...activeQueries.keys()].map(runQuery));
+}
+
+// Patch the cached row from a realtime change; rows no query wants are only passed on to the listeners
+const applyChange = (payload: RealtimePostgresChangesPayload<Episode>) => {
+  if (payload.eventType === "DELETE") {
+    const episodeId = payload.old.id;
+    if (!episodeId) return;
+
+    const previous = memoryState.episodes[episodeId] || null;
+    dispatch({ type: "REMOVE_EPISODE", episodeId });
+    emit({ type: "remove", episodeId, previous });
+    return;
+  }
+
+  const episode = payload.new;
+  const previous = memoryState.episodes[episode.id] || null;
+  if (previous || isWatched(episode)) {
+    dispatch({ type: "UPSERT_EPISODE", episode });
+  }
+  emit(payload.eventType === "INSERT" ? { type: "insert", episode } : { type: "upsert", episode, previous });
+};
+
+// The one realtime channel and the polling fallback are shared by every query and listener
+let subscriberCount = 0;
+let unsubscribeChannel: (() => void) | null = null;
+let channelGeneration = 0;
+let pollTimeout: number | null = null;
+let pollDelay = POLL_INITIAL_DELAY;
+
+const stopPolling = () => {
+  if (pollTimeout !== null) {
+    window.clearTimeout(pollTimeout);
+    pollTimeout = null;
+  }
+  pollDelay = POLL_INITIAL_DELAY;
+};
+
+// Poll with exponential backoff until the realtime channel comes back
+const schedulePoll = () => {
+  if (pollTimeout !== null) return;
+
+  pollTimeout = window.setTimeout(async () => {
+    pollTimeout = null;
+    emit({ type: "resync" });
+    await refreshEpisodes();
+    pollDelay = Math.min(pollDelay * 2, POLL_MAX_DELAY);
+
+    if (memoryState.connection === "polling" && subscriberCount > 0) {
+      schedulePoll();
+    }
+  }, pollDelay);
+};
+
+const handleChannelStatus = (status: RealtimeChannelStatus) => {
+  if (status === "SUBSCRIBED") {
+    const wasDisconnected = memoryState.connection === "polling";
+    stopPolling();
+    dispatch({ type: "SET_CONNECTION", connection: "live" });
+
+    // Catch up on anything missed while the channel was down
+    if (wasDisconnected) {
+      emit({ type: "resync" });
+      refreshEpisodes();
+    }
+    return;
+  }
+
+  console.warn(`Realtime channel ${status}, falling back to polling`);
+  dispatch({ type: "SET_CONNECTION", connection: "polling" });
+  schedulePoll();
+};
+
+const startSync = () => {
+  const generation = ++channelGeneration;
+
+  unsubscribeChannel = subscribeToEpisodeChanges("autoworkflow-sync", applyChange, (status) => {
+    // Ignore the CLOSED status a channel reports after we unsubscribed from it
+    if (generation === channelGeneration) {
+      handleChannelStatus(status);
+    }
+  });
+};
+
+const stopSync = () => {
+  channelGeneration += 1;
+  unsubscribeChannel?.();
+  unsubscribeChannel = null;
+  stopPolling();
+  dispatch({ type: "SET_CONNECTION", connection: "connecting" });
+};
+
+// Start syncing with the first subscriber and stop with the last one
+const retainSync = () => {
+  subscriberCount += 1;
+  if (subscriberCount === 1) {
+    startSync();
+  }
+};
+
+const releaseSync = () => {
+  subscriberCount -= 1;
+  if (subscriberCount === 0) {
+    stopSync();
+  }
+};
+
+// Mount a query, loading it the first time; returns a function that unmounts it
+const registerQuery = (key: string, query: Omit<RegisteredQuery, "subscribers">): (() => void) => {
+  const registered = activeQueries.get(key);
+  if (registered) {
+    registered.subscribers += 1;
+  } else {
+    activeQueries.set(key, { ...query, subscribers: 1 });
+    runQuery(key);
+  }
+  retainSync();
+
+  return () => {
+    const current = activeQueries.get(key);
+    if (current) {
+      current.subscribers -= 1;
+      if (current.subscribers === 0) {
+        activeQueries.delete(key);
+        dispatch({ type: "FORGET_QUERY", key, isKept: isWatched });
+      }
+    }
+    releaseSync();
+  };
+};
+
+// Listen for the realtime changes the store receives, for views that keep their own rows; returns an unsubscribe function
+function subscribeToEpisodeStore(listener: (event: EpisodeStoreEvent) => void): () => void {
+  eventListeners.push(listener);
+  retainSync();
+
+  return () => {
+    const index = eventListeners.indexOf(listener);
+    if (index > -1) {
+      eventListeners.splice(index, 1);
+    }
+    releaseSync();
+  };
+}
+
+// Put a row returned by a local write into the store straight away
+function upsertEpisode(episode: Episode) {
+  dispatch({ type: "UPSERT_EPISODE", episode });
+}
+
+function removeEpisode(episodeId: string) {
+  dispatch({ type: "REMOVE_EPISODE", episodeId });
+}
+
+function useEpisodeStore() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    // Catch up on changes dispatched between render and subscribing
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return state;
+}
+
+// Episodes fetched from the server by a targeted query and kept up to date by the shared realtime channel.
+// The key names the query: fetchEpisodes and matches may only depend on what the key encodes, and a null key
+// turns the query off. matches picks the query's rows out of the shared cache, trashed rows included.
+function useEpisodeQuery(
+  key: string | null,
+  fetchEpisodes: () => Promise<Episode[]>,
+  matches: (episode: Episode) => boolean
+) {
+  const state = useEpisodeStore();
+
+  const queryRef = React.useRef({ fetchEpisodes, matches });
+  queryRef.current = { fetchEpisodes, matches };
+
+  React.useEffect(() => {
+    if (key === null) return;
+
+    return registerQuery(key, {
+      fetchEpisodes: () => queryRef.current.fetchEpisodes(),
+      matches: (episode) => queryRef.current.matches(episode),
+    });
+  }, [key]);
+
+  const episodes = React.useMemo(
+    () => (key === null ? [] : Object.values(state.episodes).filter((episode) => queryRef.current.matches(episode))),
+    [state.episodes, key]
+  );
+  const status = (key !== null && state.queries[key]) || EMPTY_QUERY_STATUS;
+
+  return {
+    episodes,
+    hasLoaded: status.hasLoaded,
+    isLoading: status.isLoading,
+    error: status.error,
+    connection: state.connection,
+    refresh: () => (key !== null ? runQuery(key) : Promise.resolve()),
+  };
+}
+
+// One episode by id, whether or not it is in the trash; null once it turned out not to exist
+function useEpisode(episodeId: string | null) {
+  const { episodes, ...query } = useEpisodeQuery(
+    episodeId === null ? null : `id:${episodeId}`,
+    async () => {
+      const episode = episodeId === null ? null : await getEpisodeById(episodeId);
+      return episode ? [episode] : [];
+    },
+    (episode) => String(episode.id) === episodeId
+  );
+
+  return { ...query, episode: episodes[0] || null };
+}
+
+// The most recent episode with the given interview file name that is not in the trash
+function useEpisodeByName(episodeName: string | null) {
+  const { episodes, ...query } = useEpisodeQuery(
+    episodeName === null ? null : `name:${episodeName}`,
+    () => listEpisodesByName(episodeName === null ? [] : [episodeName]),
+    (episode) => !episode.deleted_at && episode.episode_interview_file_name === episodeName
+  );
+
+  const episode = React.useMemo(
+    () => (episodeName === null ? null : findEpisodeByName(episodes, episodeName)),
+    [episodes, episodeName]
+  );
+
+  return { ...query, episode };
+}
+
+export {
+  useEpisodeQuery,
+  useEpisode,
+  useEpisodeByName,
+  subscribeToEpisodeStore,
+  refreshEpisodes,
+  upsertEpisode,
+  removeEpisode,
+};
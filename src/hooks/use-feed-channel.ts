@@ -0,0 +1,121 @@
+import * as React from "react";
+import { DEFAULT_FEED_CHANNEL, type FeedChannel } from "@/lib/podcast-feed";
+
+// Key under which the feed's show details are persisted in localStorage
+const STORAGE_KEY = "mep.feed-channel";
+
+type Action =
+  | {
+      type: "UPDATE_CHANNEL";
+      changes: Partial<FeedChannel>;
+    }
+  | {
+      type: "RESET_CHANNEL";
+    }
+  | {
+      type: "SYNC_CHANNEL";
+      channel: FeedChannel;
+    };
+
+interface State {
+  channel: FeedChannel;
+}
+
+// Stored details on top of the defaults, so fields added later start with their default
+const loadChannel = (): FeedChannel => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_FEED_CHANNEL;
+
+    const channel = JSON.parse(stored);
+    return typeof channel === "object" && channel !== null && !Array.isArray(channel)
+      ? { ...DEFAULT_FEED_CHANNEL, ...channel }
+      : DEFAULT_FEED_CHANNEL;
+  } catch (err) {
+    console.error("Error loading feed details:", err);
+    return DEFAULT_FEED_CHANNEL;
+  }
+};
+
+const saveChannel = (channel: FeedChannel) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(channel));
+  } catch (err) {
+    console.error("Error saving feed details:", err);
+  }
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "UPDATE_CHANNEL":
+      return {
+        ...state,
+        channel: { ...state.channel, ...action.changes },
+      };
+
+    case "RESET_CHANNEL":
+      return {
+        ...state,
+        channel: DEFAULT_FEED_CHANNEL,
+      };
+
+    case "SYNC_CHANNEL":
+      return {
+        ...state,
+        channel: action.channel,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { channel: loadChannel() };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+
+  if (action.type !== "SYNC_CHANNEL") {
+    saveChannel(memoryState.channel);
+  }
+
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Pick up changes made in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) {
+    dispatch({ type: "SYNC_CHANNEL", channel: loadChannel() });
+  }
+});
+
+function updateChannel(changes: Partial<FeedChannel>) {
+  dispatch({ type: "UPDATE_CHANNEL", changes });
+}
+
+function resetChannel() {
+  dispatch({ type: "RESET_CHANNEL" });
+}
+
+function useFeedChannel() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    channel: state.channel,
+    updateChannel,
+    resetChannel,
+  };
+}
+
+export { useFeedChannel };
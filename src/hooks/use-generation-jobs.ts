@@ -0,0 +1,210 @@
+import * as React from "react";
+import { config } from "@/lib/config";
+
+// Key under which jobs are persisted in localStorage
+const STORAGE_KEY = "mep.generation-jobs";
+
+// Maximum time to wait for Script #4 before a job is reported as taking too long
+export const MAX_WAIT_TIME = config.maxWaitTime;
+
+// Jobs older than this are dropped when the page loads - 24 hours
+const JOB_EXPIRY = 24 * 60 * 60 * 1000;
+
+export type GenerationJobStatus = "pending" | "timed_out" | "completed";
+
+// A submission to the generation webhook that is being watched until its scripts land
+export interface GenerationJob {
+  id: string;
+  episodeName: string;
+  fileName: string | null;
+  submittedAt: number;
+  // Row the job follows, claimed when a new row with the job's name first appears
+  episodeId: string | null;
+  scriptsReady: number;
+  status: GenerationJobStatus;
+  // Original source, written to the row once it appears
+  sourceDocumentFileName: string | null;
+  sourceDocument: string | null;
+  // Why the source couldn't be written to the row, until it is retried
+  sourceError: string | null;
+}
+
+type Action =
+  | {
+      type: "ADD_JOB";
+      job: GenerationJob;
+    }
+  | {
+      type: "UPDATE_JOB";
+      job: Partial<GenerationJob> & { id: string };
+    }
+  | {
+      type: "REMOVE_JOB";
+      jobId: string;
+    }
+  | {
+      type: "SYNC_JOBS";
+      jobs: GenerationJob[];
+    };
+
+interface State {
+  jobs: GenerationJob[];
+}
+
+// Read persisted jobs, discarding anything malformed or expired
+const loadJobs = (): GenerationJob[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const jobs = JSON.parse(stored);
+    if (!Array.isArray(jobs)) return [];
+
+    return jobs.filter(
+      (job): job is GenerationJob =>
+        typeof job?.id === "string" &&
+        typeof job?.episodeName === "string" &&
+        typeof job?.submittedAt === "number" &&
+        Date.now() - job.submittedAt < JOB_EXPIRY
+    );
+  } catch (err) {
+    console.error("Error loading generation jobs:", err);
+    return [];
+  }
+};
+
+const saveJobs = (jobs: GenerationJob[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (err) {
+    console.error("Error saving generation jobs:", err);
+  }
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "ADD_JOB":
+      return {
+        ...state,
+        jobs: [action.job, ...state.jobs],
+      };
+
+    case "UPDATE_JOB":
+      return {
+        ...state,
+        jobs: state.jobs.map((j) =>
+          j.id === action.job.id ? { ...j, ...action.job } : j
+        ),
+      };
+
+    case "REMOVE_JOB":
+      return {
+        ...state,
+        jobs: state.jobs.filter((j) => j.id !== action.jobId),
+      };
+
+    case "SYNC_JOBS":
+      return {
+        ...state,
+        jobs: action.jobs,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { jobs: loadJobs() };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+
+  // Sync state from other tabs is already persisted
+  if (action.type !== "SYNC_JOBS") {
+    saveJobs(memoryState.jobs);
+  }
+
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Pick up jobs added or finished in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) {
+    dispatch({ type: "SYNC_JOBS", jobs: loadJobs() });
+  }
+});
+
+// Record a new submission and return its job id
+function addJob({
+  episodeName,
+  fileName,
+  sourceDocument,
+  submittedAt,
+}: {
+  episodeName: string;
+  fileName?: string | null;
+  sourceDocument?: string | null;
+  // When the request was sent, if that was before the job is added
+  submittedAt?: number;
+}) {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  dispatch({
+    type: "ADD_JOB",
+    job: {
+      id,
+      episodeName,
+      fileName: fileName || null,
+      submittedAt: submittedAt ?? Date.now(),
+      episodeId: null,
+      scriptsReady: 0,
+      status: "pending",
+      sourceDocumentFileName: fileName || null,
+      sourceDocument: sourceDocument || null,
+      sourceError: null,
+    },
+  });
+
+  return id;
+}
+
+function updateJob(jobId: string, changes: Partial<Omit<GenerationJob, "id">>) {
+  dispatch({ type: "UPDATE_JOB", job: { ...changes, id: jobId } });
+}
+
+function removeJob(jobId: string) {
+  dispatch({ type: "REMOVE_JOB", jobId });
+}
+
+// Jobs still waiting for their scripts, newest first
+function getActiveJobs() {
+  return memoryState.jobs.filter((job) => job.status !== "completed");
+}
+
+function useGenerationJobs() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  // Kept stable between renders so effects can depend on it
+  const activeJobs = React.useMemo(() => state.jobs.filter((job) => job.status !== "completed"), [state.jobs]);
+
+  return {
+    ...state,
+    activeJobs,
+    addJob,
+    updateJob,
+    removeJob,
+  };
+}
+
+export { useGenerationJobs, addJob, updateJob, removeJob, getActiveJobs };
@@ -0,0 +1,136 @@
+import * as React from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { getCurrentUser } from "@/lib/auth";
+import type { ScriptLinkKey } from "@/lib/episodes";
+
+// Key under which opened scripts are persisted in localStorage
+const STORAGE_KEY = "mep.opened-scripts";
+
+type Action =
+  | {
+      type: "MARK_OPENED";
+      openedKey: string;
+      scriptKey: ScriptLinkKey;
+    }
+  | {
+      type: "SYNC_OPENED";
+      opened: Record<string, ScriptLinkKey[]>;
+    };
+
+interface State {
+  // Scripts each reviewer has opened in the viewer, per user and episode (see toOpenedKey)
+  opened: Record<string, ScriptLinkKey[]>;
+}
+
+// Opening a script only counts for the person who opened it, even when several people share a browser
+const toOpenedKey = (userId: string, episodeId: string): string => `${userId}:${episodeId}`;
+
+const loadOpened = (): Record<string, ScriptLinkKey[]> => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+
+    const opened = JSON.parse(stored);
+    if (typeof opened !== "object" || opened === null || Array.isArray(opened)) return {};
+
+    // Entries saved before scripts were tracked per user don't say who opened them
+    const entries = Object.entries(opened as Record<string, ScriptLinkKey[]>);
+    return Object.fromEntries(entries.filter(([key]) => key.includes(":")));
+  } catch (err) {
+    console.error("Error loading opened scripts:", err);
+    return {};
+  }
+};
+
+const saveOpened = (opened: Record<string, ScriptLinkKey[]>) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(opened));
+  } catch (err) {
+    console.error("Error saving opened scripts:", err);
+  }
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "MARK_OPENED": {
+      const current = state.opened[action.openedKey] || [];
+      if (current.includes(action.scriptKey)) return state;
+
+      return {
+        ...state,
+        opened: {
+          ...state.opened,
+          [action.openedKey]: [...current, action.scriptKey],
+        },
+      };
+    }
+
+    case "SYNC_OPENED":
+      return {
+        ...state,
+        opened: action.opened,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { opened: loadOpened() };
+
+function dispatch(action: Action) {
+  const previous = memoryState;
+  memoryState = reducer(memoryState, action);
+  if (memoryState === previous) return;
+
+  if (action.type !== "SYNC_OPENED") {
+    saveOpened(memoryState.opened);
+  }
+
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Pick up scripts opened in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) {
+    dispatch({ type: "SYNC_OPENED", opened: loadOpened() });
+  }
+});
+
+// Record that the signed-in user opened a script; nothing is recorded while signed out
+function markScriptOpened(episodeId: string, scriptKey: ScriptLinkKey) {
+  const user = getCurrentUser();
+  if (!user) return;
+
+  dispatch({ type: "MARK_OPENED", openedKey: toOpenedKey(user.id, episodeId), scriptKey });
+}
+
+// Scripts of an episode the signed-in user has opened, for checks made outside of a component
+function getOpenedScripts(episodeId: string): ScriptLinkKey[] {
+  const user = getCurrentUser();
+  return (user && memoryState.opened[toOpenedKey(user.id, episodeId)]) || [];
+}
+
+// Scripts of an episode the signed-in user has opened
+function useOpenedScripts(episodeId: string | null | undefined) {
+  const { user } = useAuth();
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    openedScripts: (user && episodeId && state.opened[toOpenedKey(user.id, episodeId)]) || [],
+    markScriptOpened,
+  };
+}
+
+export { useOpenedScripts, markScriptOpened, getOpenedScripts };
@@ -0,0 +1,84 @@
+import * as React from "react";
+import { parseRoute, type Route } from "@/lib/routes";
+
+type Action = {
+  type: "SYNC";
+  pathname: string;
+  search: string;
+};
+
+interface State {
+  route: Route;
+  pathname: string;
+  search: string;
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "SYNC":
+      if (state.pathname === action.pathname && state.search === action.search) return state;
+      return {
+        route: parseRoute(action.pathname),
+        pathname: action.pathname,
+        search: action.search,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = {
+  route: parseRoute(window.location.pathname),
+  pathname: window.location.pathname,
+  search: window.location.search,
+};
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+const syncWithLocation = () => {
+  dispatch({ type: "SYNC", pathname: window.location.pathname, search: window.location.search });
+};
+
+// Back and forward buttons
+window.addEventListener("popstate", syncWithLocation);
+
+// Go to a path inside the app without reloading the page
+function navigate(path: string, options: { replace?: boolean } = {}) {
+  if (options.replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+  }
+  syncWithLocation();
+
+  if (!options.replace) {
+    window.scrollTo(0, 0);
+  }
+}
+
+function useRoute() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    navigate,
+  };
+}
+
+export { useRoute, navigate };
@@ -0,0 +1,138 @@
+import * as React from "react";
+import type { EpisodeFilters, SavedView } from "@/lib/episode-filters";
+
+// Key under which saved views are persisted in localStorage
+const STORAGE_KEY = "mep.saved-views";
+
+type Action =
+  | {
+      type: "SAVE_VIEW";
+      userId: string;
+      view: SavedView;
+    }
+  | {
+      type: "DELETE_VIEW";
+      userId: string;
+      viewId: string;
+    }
+  | {
+      type: "SYNC_VIEWS";
+      views: Record<string, SavedView[]>;
+    };
+
+interface State {
+  // Saved views per user id
+  views: Record<string, SavedView[]>;
+}
+
+const loadViews = (): Record<string, SavedView[]> => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+
+    const views = JSON.parse(stored);
+    return typeof views === "object" && views !== null && !Array.isArray(views) ? views : {};
+  } catch (err) {
+    console.error("Error loading saved views:", err);
+    return {};
+  }
+};
+
+const saveViews = (views: Record<string, SavedView[]>) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  } catch (err) {
+    console.error("Error saving views:", err);
+  }
+};
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "SAVE_VIEW": {
+      // Saving under an existing name replaces that view
+      const current = (state.views[action.userId] || []).filter(
+        (view) => view.id !== action.view.id && view.name !== action.view.name
+      );
+
+      return {
+        ...state,
+        views: {
+          ...state.views,
+          [action.userId]: [...current, action.view],
+        },
+      };
+    }
+
+    case "DELETE_VIEW":
+      return {
+        ...state,
+        views: {
+          ...state.views,
+          [action.userId]: (state.views[action.userId] || []).filter((view) => view.id !== action.viewId),
+        },
+      };
+
+    case "SYNC_VIEWS":
+      return {
+        ...state,
+        views: action.views,
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { views: loadViews() };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+
+  if (action.type !== "SYNC_VIEWS") {
+    saveViews(memoryState.views);
+  }
+
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Pick up views saved in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.key === STORAGE_KEY) {
+    dispatch({ type: "SYNC_VIEWS", views: loadViews() });
+  }
+});
+
+function saveView(userId: string, name: string, filters: EpisodeFilters): SavedView {
+  const view: SavedView = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name: name.trim(), filters };
+  dispatch({ type: "SAVE_VIEW", userId, view });
+  return view;
+}
+
+function deleteView(userId: string, viewId: string) {
+  dispatch({ type: "DELETE_VIEW", userId, viewId });
+}
+
+function useSavedViews(userId: string | null | undefined) {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    savedViews: (userId && state.views[userId]) || [],
+    saveView: (name: string, filters: EpisodeFilters) => (userId ? saveView(userId, name, filters) : null),
+    deleteView: (viewId: string) => {
+      if (userId) deleteView(userId, viewId);
+    },
+  };
+}
+
+export { useSavedViews };
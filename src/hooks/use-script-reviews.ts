@@ -0,0 +1,156 @@
+import * as React from "react";
+import { upsertEpisode } from "@/hooks/use-episodes";
+import { updateEpisode, type Episode, type ScriptLinkKey } from "@/lib/episodes";
+import { assertTransition } from "@/lib/pipeline";
+import { loadScriptHash, loadScriptHashes, REVIEWABLE_SCRIPT_KEYS } from "@/lib/scripts";
+import {
+  createScriptReview,
+  deriveScriptStatus,
+  getCurrentReviews,
+  getStoredScriptStatus,
+  listScriptReviews,
+  subscribeToScriptReviews,
+  type ScriptDecision,
+  type ScriptReview,
+} from "@/lib/script-reviews";
+
+// Newest first, without the duplicate a realtime echo of our own insert would create
+const mergeReview = (reviews: ScriptReview[], review: ScriptReview) =>
+  reviews.some((r) => r.id === review.id) ? reviews : [review, ...reviews];
+
+// Review decisions for one episode, kept live while the episode is shown
+function useScriptReviews(episode: Episode | null) {
+  const [reviews, setReviews] = React.useState<ScriptReview[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [scriptHashes, setScriptHashes] = React.useState<Partial<Record<ScriptLinkKey, string>>>({});
+  const episodeId = episode?.id;
+
+  // Fingerprint the scripts again whenever the row changes, since a script may be rewritten under the same link
+  const scriptLinksKey = episode
+    ? JSON.stringify([episode.version, ...REVIEWABLE_SCRIPT_KEYS.map((key) => episode[key])])
+    : null;
+
+  React.useEffect(() => {
+    setReviews([]);
+    if (!episodeId) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+
+    listScriptReviews(episodeId)
+      .then((loaded) => {
+        if (!isCancelled) setReviews(loaded);
+      })
+      .catch((err) => console.error("Error loading script reviews:", err))
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    const unsubscribe = subscribeToScriptReviews(episodeId, (review) => {
+      setReviews((current) => mergeReview(current, review));
+    });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [episodeId]);
+
+  const episodeRef = React.useRef(episode);
+  episodeRef.current = episode;
+
+  React.useEffect(() => {
+    setScriptHashes({});
+    if (!scriptLinksKey || !episodeRef.current) return;
+
+    let isCancelled = false;
+    loadScriptHashes(episodeRef.current).then((hashes) => {
+      if (!isCancelled) setScriptHashes(hashes);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [scriptLinksKey]);
+
+  const currentReviews = React.useMemo(
+    () => (episode ? getCurrentReviews(reviews, episode, scriptHashes) : {}),
+    [reviews, episode, scriptHashes]
+  );
+
+  // Keep the episode's aggregate status in step with the decisions that still count
+  const syncScriptStatus = async (
+    nextReviews: ScriptReview[],
+    nextHashes: Partial<Record<ScriptLinkKey, string>>
+  ) => {
+    if (!episode) return;
+
+    const nextStatus = getStoredScriptStatus(
+      episode.episode_interview_script_status,
+      getCurrentReviews(nextReviews, episode, nextHashes)
+    );
+    if (episode.episode_interview_script_status !== nextStatus) {
+      const updated = await updateEpisode(episode.id, { episode_interview_script_status: nextStatus });
+      upsertEpisode(updated);
+    }
+  };
+
+  // Record a decision
+  const submitReview = async (scriptKey: ScriptLinkKey, decision: ScriptDecision, comment: string | null) => {
+    if (!episode) return;
+
+    // Check the status change first, so a decision the pipeline would refuse isn't stored without it
+    const nextStatus = getStoredScriptStatus(episode.episode_interview_script_status, {
+      ...currentReviews,
+      [scriptKey]: { decision },
+    });
+    if (nextStatus !== episode.episode_interview_script_status) {
+      assertTransition(episode, { episode_interview_script_status: nextStatus });
+    }
+
+    const scriptHash = await loadScriptHash(episode[scriptKey]);
+    const review = await createScriptReview({
+      episode_id: episode.id,
+      script_key: scriptKey,
+      decision,
+      comment,
+      script_url: episode[scriptKey],
+      script_hash: scriptHash,
+    });
+    const nextReviews = mergeReview(reviews, review);
+    setReviews(nextReviews);
+
+    const nextHashes = scriptHash ? { ...scriptHashes, [scriptKey]: scriptHash } : scriptHashes;
+    setScriptHashes(nextHashes);
+    try {
+      await syncScriptStatus(nextReviews, nextHashes);
+    } catch (err) {
+      throw new Error(
+        `The review was saved, but the episode status couldn't be updated: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  };
+
+  // An edit made in the app changes a script's text without touching the row, so fingerprint it again
+  const handleScriptEdited = async (scriptKey: ScriptLinkKey) => {
+    if (!episode) return;
+
+    const scriptHash = await loadScriptHash(episode[scriptKey]);
+    if (!scriptHash) return;
+
+    const nextHashes = { ...scriptHashes, [scriptKey]: scriptHash };
+    setScriptHashes(nextHashes);
+    await syncScriptStatus(reviews, nextHashes);
+  };
+
+  return {
+    reviews,
+    currentReviews,
+    scriptStatus: deriveScriptStatus(currentReviews),
+    isLoading,
+    submitReview,
+    handleScriptEdited,
+  };
+}
+
+export { useScriptReviews };
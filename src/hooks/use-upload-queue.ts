@@ -0,0 +1,174 @@
+import * as React from "react";
+import { addJob } from "@/hooks/use-generation-jobs";
+import { deriveEpisodeName, sendGenerationRequest } from "@/lib/generation";
+import { extractFileSource, getSourceDocumentValue } from "@/lib/source-documents";
+
+// How many documents are sent to the generation webhook at the same time
+const MAX_CONCURRENT_UPLOADS = 2;
+
+// draft: waiting for the user to confirm the name; queued: waiting for a free upload slot
+export type UploadStatus = "draft" | "queued" | "uploading" | "submitted" | "failed";
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  episodeName: string;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+}
+
+type Action =
+  | {
+      type: "ADD_ITEMS";
+      items: UploadItem[];
+    }
+  | {
+      type: "UPDATE_ITEM";
+      item: Partial<UploadItem> & { id: string };
+    }
+  | {
+      type: "REMOVE_ITEM";
+      itemId: string;
+    };
+
+interface State {
+  items: UploadItem[];
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "ADD_ITEMS":
+      return {
+        ...state,
+        items: [...state.items, ...action.items],
+      };
+
+    case "UPDATE_ITEM":
+      return {
+        ...state,
+        items: state.items.map((i) =>
+          i.id === action.item.id ? { ...i, ...action.item } : i
+        ),
+      };
+
+    case "REMOVE_ITEM":
+      return {
+        ...state,
+        items: state.items.filter((i) => i.id !== action.itemId),
+      };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { items: [] };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+const updateItem = (itemId: string, changes: Partial<Omit<UploadItem, "id">>) => {
+  dispatch({ type: "UPDATE_ITEM", item: { ...changes, id: itemId } });
+};
+
+// Send one queued item and record it as a generation job once the webhook accepts it
+const upload = async (item: UploadItem) => {
+  updateItem(item.id, { status: "uploading", progress: 0, error: null });
+
+  try {
+    const source = await extractFileSource(item.file);
+    const submittedAt = Date.now();
+    await sendGenerationRequest(item.episodeName, source, (progress) => updateItem(item.id, { progress }));
+    updateItem(item.id, { status: "submitted", progress: 100 });
+    addJob({
+      episodeName: item.episodeName,
+      fileName: source.fileName,
+      sourceDocument: getSourceDocumentValue(source),
+      submittedAt,
+    });
+  } catch (err) {
+    console.error(`Error uploading ${item.file.name}:`, err);
+    updateItem(item.id, {
+      status: "failed",
+      error: err instanceof Error ? err.message : "Upload failed",
+    });
+  } finally {
+    pumpQueue();
+  }
+};
+
+// Start queued uploads until every slot is busy
+const pumpQueue = () => {
+  const uploading = memoryState.items.filter((i) => i.status === "uploading").length;
+  const next = memoryState.items
+    .filter((i) => i.status === "queued")
+    .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - uploading));
+
+  next.forEach((item) => {
+    upload(item);
+  });
+};
+
+// Add documents as drafts, naming each episode after its file
+function addFiles(files: File[]) {
+  dispatch({
+    type: "ADD_ITEMS",
+    items: files.map((file) => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      file,
+      episodeName: deriveEpisodeName(file.name),
+      status: "draft",
+      progress: 0,
+      error: null,
+    })),
+  });
+}
+
+function renameItem(itemId: string, episodeName: string) {
+  updateItem(itemId, { episodeName });
+}
+
+function removeItem(itemId: string) {
+  dispatch({ type: "REMOVE_ITEM", itemId });
+}
+
+// Queue the given drafts (or failed items being retried) and start uploading
+function enqueue(itemIds: string[]) {
+  itemIds.forEach((itemId) => updateItem(itemId, { status: "queued", progress: 0, error: null }));
+  pumpQueue();
+}
+
+function clearSubmitted() {
+  memoryState.items
+    .filter((i) => i.status === "submitted")
+    .forEach((i) => removeItem(i.id));
+}
+
+function useUploadQueue() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    addFiles,
+    renameItem,
+    removeItem,
+    enqueue,
+    clearSubmitted,
+  };
+}
+
+export { useUploadQueue };
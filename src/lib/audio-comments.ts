@@ -0,0 +1,127 @@
+import { supabase } from "@/lib/supabase";
+import { PermissionDeniedError, can, getCurrentUser, type AppUser } from "@/lib/auth";
+import type { Episode } from "@/lib/episodes";
+
+// Name of the Supabase table holding comments pinned to positions in the audio
+const AUDIO_COMMENTS_TABLE = "audio_comments";
+
+// Audio columns that can be played and reviewed in the app
+export const AUDIO_KEYS = ["master_audio_file", "episode_intro_audio_file"] as const;
+export type AudioKey = (typeof AUDIO_KEYS)[number];
+
+export const AUDIO_LABELS: Record<AudioKey, string> = {
+  master_audio_file: "Master Audio",
+  episode_intro_audio_file: "Intro Audio",
+};
+
+// A single row of the audio_comments table
+export interface AudioComment {
+  id: string;
+  created_at: string;
+  episode_id: string;
+  audio_key: AudioKey;
+  audio_url: string | null;
+  position_seconds: number;
+  comment: string;
+  author_id: string | null;
+  author_email: string | null;
+}
+
+export type NewAudioComment = Omit<AudioComment, "id" | "created_at" | "author_id" | "author_email">;
+
+// Raised when a comment is submitted without any text
+export class AudioCommentRequiredError extends Error {
+  constructor() {
+    super("A comment can't be empty");
+    this.name = "AudioCommentRequiredError";
+  }
+}
+
+// Position in the audio as m:ss, or h:mm:ss for long recordings
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+// Fetch every audio comment of an episode, in playback order
+export async function listAudioComments(episodeId: string): Promise<AudioComment[]> {
+  const { data, error } = await supabase
+    .from(AUDIO_COMMENTS_TABLE)
+    .select("*")
+    .eq("episode_id", episodeId)
+    .order("position_seconds", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as AudioComment[];
+}
+
+// Pin a comment by the signed-in user to a position in the audio
+export async function createAudioComment(comment: NewAudioComment): Promise<AudioComment> {
+  if (!comment.comment.trim()) throw new AudioCommentRequiredError();
+
+  const user = getCurrentUser();
+  const { data, error } = await supabase
+    .from(AUDIO_COMMENTS_TABLE)
+    .insert({
+      ...comment,
+      comment: comment.comment.trim(),
+      position_seconds: Math.max(0, Math.round(comment.position_seconds * 10) / 10),
+      author_id: user?.id || null,
+      author_email: user?.email || null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as AudioComment;
+}
+
+// Authors can remove their own comments; admins can remove any
+export function canRemoveAudioComment(user: AppUser | null, comment: AudioComment): boolean {
+  return !!user && (comment.author_id === user.id || can(user, "delete"));
+}
+
+export async function deleteAudioComment(comment: AudioComment): Promise<void> {
+  if (!canRemoveAudioComment(getCurrentUser(), comment)) throw new PermissionDeniedError("delete");
+
+  const { error } = await supabase.from(AUDIO_COMMENTS_TABLE).delete().eq("id", comment.id);
+  if (error) throw new Error(error.message);
+}
+
+// Listen for comments added to or removed from one episode; returns an unsubscribe function
+export function subscribeToAudioComments(
+  episodeId: string,
+  onInsert: (comment: AudioComment) => void,
+  onDelete: (commentId: string) => void
+): () => void {
+  const channel = supabase
+    .channel(`audio-comments-${episodeId}`)
+    .on<AudioComment>("postgres_changes", {
+      event: "INSERT",
+      schema: "public",
+      table: AUDIO_COMMENTS_TABLE,
+      filter: `episode_id=eq.${episodeId}`,
+    }, (payload) => onInsert(payload.new))
+    .on<AudioComment>("postgres_changes", {
+      event: "DELETE",
+      schema: "public",
+      table: AUDIO_COMMENTS_TABLE,
+    }, (payload) => {
+      if (payload.old.id) onDelete(payload.old.id);
+    })
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
+
+// Comments on the audio file the episode links to now; comments on a regenerated file's earlier version are left out
+export function getCurrentAudioComments(comments: AudioComment[], episode: Episode, audioKey: AudioKey): AudioComment[] {
+  return comments
+    .filter((comment) => comment.audio_key === audioKey && comment.audio_url === (episode[audioKey] ?? null))
+    .sort((a, b) => a.position_seconds - b.position_seconds);
+}
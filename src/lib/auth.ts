@@ -0,0 +1,145 @@
+import type { User } from "@supabase/supabase-js";
+import { config } from "@/lib/config";
+import { supabase } from "@/lib/supabase";
+
+export const USER_ROLES = ["producer", "reviewer", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  producer: "Producer",
+  reviewer: "Reviewer",
+  admin: "Admin",
+};
+
+// The signed-in user as the app sees it, whichever auth mode is active
+export interface AppUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// Restricted actions; every signed-in user may generate and edit episodes, and admins may do everything
+export type Permission = "approve" | "delete";
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  producer: [],
+  reviewer: ["approve"],
+  admin: ["approve", "delete"],
+};
+
+export function can(user: AppUser | null, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Raised when the signed-in user's role doesn't allow an action
+export class PermissionDeniedError extends Error {
+  constructor(public permission: Permission) {
+    super(`Your role doesn't allow you to ${permission} episodes`);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+// Raised when sign-in fails
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Stand-in users for the local auth mode
+export const LOCAL_USERS: AppUser[] = [
+  { id: "local-producer", email: "producer@localhost", name: "Local Producer", role: "producer" },
+  { id: "local-reviewer", email: "reviewer@localhost", name: "Local Reviewer", role: "reviewer" },
+  { id: "local-admin", email: "admin@localhost", name: "Local Admin", role: "admin" },
+];
+
+// Key under which the local stand-in remembers who is signed in
+const LOCAL_USER_STORAGE_KEY = "mep.local-user";
+
+// Roles are set server-side in app_metadata so users can't grant themselves one; anyone without a role is a producer
+const toAppUser = (user: User): AppUser => {
+  const role = user.app_metadata?.role;
+  return {
+    id: user.id,
+    email: user.email || "",
+    name: user.user_metadata?.full_name || user.email || "Unknown user",
+    role: (USER_ROLES as readonly string[]).includes(role) ? role : "producer",
+  };
+};
+
+// Last known signed-in user, for code outside React that records who made a change
+let currentUser: AppUser | null = null;
+
+export function getCurrentUser(): AppUser | null {
+  return currentUser;
+}
+
+const remember = (user: AppUser | null): AppUser | null => {
+  currentUser = user;
+  return user;
+};
+
+const loadLocalUser = (): AppUser | null => {
+  const id = window.localStorage.getItem(LOCAL_USER_STORAGE_KEY);
+  return LOCAL_USERS.find((user) => user.id === id) || null;
+};
+
+// The user signed in when the app starts
+export async function getSessionUser(): Promise<AppUser | null> {
+  if (config.authMode === "local") {
+    return remember(loadLocalUser());
+  }
+
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw new AuthError(error.message);
+  return remember(data.session ? toAppUser(data.session.user) : null);
+}
+
+// Sign in with an email and password; the local stand-in only needs the email of one of LOCAL_USERS
+export async function signIn(email: string, password: string): Promise<AppUser> {
+  if (config.authMode === "local") {
+    const user = LOCAL_USERS.find((u) => u.email === email.trim().toLowerCase());
+    if (!user) throw new AuthError("Unknown local user.");
+
+    window.localStorage.setItem(LOCAL_USER_STORAGE_KEY, user.id);
+    remember(user);
+    return user;
+  }
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw new AuthError(error.message);
+
+  const user = toAppUser(data.user);
+  remember(user);
+  return user;
+}
+
+export async function signOut(): Promise<void> {
+  if (config.authMode === "local") {
+    window.localStorage.removeItem(LOCAL_USER_STORAGE_KEY);
+    remember(null);
+    return;
+  }
+
+  const { error } = await supabase.auth.signOut();
+  if (error) throw new AuthError(error.message);
+  remember(null);
+}
+
+// Follow sign-ins, sign-outs and token refreshes made elsewhere (e.g. in other tabs); returns an unsubscribe function
+export function subscribeToAuthChanges(onChange: (user: AppUser | null) => void): () => void {
+  if (config.authMode === "local") {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === LOCAL_USER_STORAGE_KEY) onChange(remember(loadLocalUser()));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    onChange(remember(session ? toAppUser(session.user) : null));
+  });
+  return () => data.subscription.unsubscribe();
+}
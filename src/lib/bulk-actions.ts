@@ -0,0 +1,144 @@
+import { getEpisodeValue, trashEpisode, updateEpisode, type Episode, type ScriptLinkKey } from "@/lib/episodes";
+import { MissingSourceError, rerunGeneration } from "@/lib/generation";
+import { SETTABLE_STATUS_COLUMNS, type StatusColumn } from "@/lib/pipeline";
+import { getCurrentReviews, listScriptReviews } from "@/lib/script-reviews";
+import { REVIEWABLE_SCRIPT_KEYS, loadScriptHashes } from "@/lib/scripts";
+
+// Actions that run on every checked episode, one episode at a time
+export type BulkActionKind = "approve" | "status" | "trash" | "rerun";
+
+export const BULK_ACTION_LABELS: Record<BulkActionKind, string> = {
+  approve: "Approve",
+  status: "Change status",
+  trash: "Move to trash",
+  rerun: "Re-run generation",
+};
+
+// Outcome for one episode; failures and skipped episodes don't stop the rest of the run
+export interface BulkItemResult {
+  episode: Episode;
+  // The row after the action, when the action changed it
+  updated: Episode | null;
+  error: string | null;
+  // Why the action was left out for this episode, when it doesn't apply to it
+  skipped: string | null;
+}
+
+export interface BulkProgress {
+  action: BulkActionKind;
+  total: number;
+  results: BulkItemResult[];
+}
+
+// Approving scripts starts the text files and podcast, the same way the form does
+const APPROVAL_CHANGES = {
+  episode_interview_script_status: "Approved",
+  episode_text_files_status: "Pending",
+  podcast_status: "Pending",
+};
+
+export type BulkStatusChange = { column: StatusColumn; value: string };
+
+export interface BulkActionOptions {
+  // The status to set, for "status"
+  statusChange?: BulkStatusChange | null;
+  // Scripts of an episode the signed-in user has opened, for "approve"
+  getOpenedScripts?: (episodeId: string) => readonly ScriptLinkKey[];
+}
+
+// Raised when an action doesn't apply to an episode, which is then left out of the run
+export class BulkSkipError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "BulkSkipError";
+  }
+}
+
+// Hold bulk approval to the same rules as the form: every script opened by the signed-in user and approved in the viewer
+async function checkApprovable(episode: Episode, openedScripts: readonly ScriptLinkKey[]) {
+  const missing = REVIEWABLE_SCRIPT_KEYS.filter((key) => !episode[key]).length;
+  if (missing > 0) throw new BulkSkipError(`${missing} of the scripts haven't been generated yet.`);
+
+  const unopened = REVIEWABLE_SCRIPT_KEYS.filter((key) => !openedScripts.includes(key)).length;
+  if (unopened > 0) throw new BulkSkipError(`Open ${unopened} more script${unopened === 1 ? "" : "s"} in the viewer first.`);
+
+  const [reviews, scriptHashes] = await Promise.all([listScriptReviews(episode.id), loadScriptHashes(episode)]);
+  const currentReviews = getCurrentReviews(reviews, episode, scriptHashes);
+  const unapproved = REVIEWABLE_SCRIPT_KEYS.filter((key) => currentReviews[key]?.decision !== "approved").length;
+  if (unapproved > 0) {
+    throw new BulkSkipError(`Approve ${unapproved} more script${unapproved === 1 ? "" : "s"} in the viewer first.`);
+  }
+}
+
+// Run the action for a single episode; writes expect the version the list showed, so newer edits aren't overwritten
+async function performAction(
+  action: BulkActionKind,
+  episode: Episode,
+  { statusChange = null, getOpenedScripts = () => [] }: BulkActionOptions
+): Promise<Episode | null> {
+  switch (action) {
+    case "approve":
+      await checkApprovable(episode, getOpenedScripts(episode.id));
+      return updateEpisode(episode.id, APPROVAL_CHANGES, episode.version);
+    case "status":
+      if (!statusChange) throw new Error("No status was chosen.");
+      if (!SETTABLE_STATUS_COLUMNS[statusChange.column].includes(statusChange.value)) {
+        throw new Error(`${statusChange.column} can't be set to ${statusChange.value} here.`);
+      }
+      return updateEpisode(episode.id, { [statusChange.column]: statusChange.value }, episode.version);
+    case "trash":
+      return trashEpisode(episode.id);
+    case "rerun":
+      // Episodes generated from a PDF have no stored source to send again
+      try {
+        await rerunGeneration(episode);
+      } catch (err) {
+        throw err instanceof MissingSourceError ? new BulkSkipError(err.message) : err;
+      }
+      return null;
+  }
+}
+
+// Run an action on each episode in turn, reporting progress after every episode
+export async function runBulkAction(
+  action: BulkActionKind,
+  episodes: Episode[],
+  onProgress: (progress: BulkProgress) => void,
+  options: BulkActionOptions = {}
+): Promise<BulkItemResult[]> {
+  const results: BulkItemResult[] = [];
+  onProgress({ action, total: episodes.length, results: [] });
+
+  for (const episode of episodes) {
+    try {
+      const updated = await performAction(action, episode, options);
+      results.push({ episode, updated, error: null, skipped: null });
+    } catch (err) {
+      if (err instanceof BulkSkipError) {
+        results.push({ episode, updated: null, error: null, skipped: err.message });
+      } else {
+        console.error(`Error running ${action} on episode ${episode.id}:`, err);
+        results.push({ episode, updated: null, error: err instanceof Error ? err.message : "Failed", skipped: null });
+      }
+    }
+    onProgress({ action, total: episodes.length, results: [...results] });
+  }
+
+  return results;
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+const toCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The given columns of the episodes as CSV, with a header row
+export function toEpisodesCsv(episodes: Episode[], columns: string[]): string {
+  const rows = [
+    columns.map(toCsvField).join(","),
+    ...episodes.map((episode) => columns.map((column) => toCsvField(getEpisodeValue(episode, column))).join(",")),
+  ];
+  return rows.join("\r\n");
+}
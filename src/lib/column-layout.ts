@@ -0,0 +1,93 @@
+import { EPISODE_COLUMNS } from "@/lib/episodes";
+
+// Predefined column order - the known columns of the autoworkflow table
+export const PREDEFINED_COLUMN_ORDER: readonly string[] = EPISODE_COLUMNS;
+
+// Column that can be pinned to the left edge of the table
+export const PINNABLE_COLUMN = "episode_interview_file_name";
+
+// Narrowest a column can be resized to, in pixels
+export const MIN_COLUMN_WIDTH = 80;
+
+// How the episodes table shows its columns for one user
+export interface ColumnLayout {
+  // Columns in the order the user arranged them; may mention columns that no longer exist
+  order: string[];
+  hidden: string[];
+  // Widths in pixels of the columns the user resized
+  widths: Record<string, number>;
+  pinned: boolean;
+}
+
+// Long text and bookkeeping columns are hidden until a user shows them
+export const DEFAULT_HIDDEN_COLUMNS: readonly string[] = [
+  "source_document",
+  "episode_intro_transcript",
+  "linkedin_post_copy",
+  "x_post_copy",
+  "podcast_excerpt",
+  "show_notes",
+  "master_audio_captions",
+  "master_audio_captions_audio_url",
+  "updated_by",
+  "deleted_at",
+  "deleted_by",
+  "version",
+  "updated_at",
+];
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: [],
+  hidden: [...DEFAULT_HIDDEN_COLUMNS],
+  widths: {},
+  pinned: true,
+};
+
+// Every available column in display order: the user's order first, then columns the layout
+// doesn't know yet in the predefined order, then unknown columns alphabetically
+export function getOrderedColumns(layout: ColumnLayout, availableColumns: string[]): string[] {
+  const available = new Set(availableColumns);
+  const arranged = layout.order.filter((column) => available.has(column));
+  const placed = new Set(arranged);
+
+  const known = PREDEFINED_COLUMN_ORDER.filter((column) => available.has(column) && !placed.has(column));
+  const unknown = availableColumns
+    .filter((column) => !placed.has(column) && !PREDEFINED_COLUMN_ORDER.includes(column))
+    .sort();
+
+  const ordered = [...arranged, ...known, ...unknown];
+
+  // A pinned column always comes first so it can stick to the left edge
+  if (layout.pinned && available.has(PINNABLE_COLUMN)) {
+    return [PINNABLE_COLUMN, ...ordered.filter((column) => column !== PINNABLE_COLUMN)];
+  }
+
+  return ordered;
+}
+
+// The ordered columns that aren't hidden; the pinned column can't be hidden
+export function getVisibleColumns(layout: ColumnLayout, availableColumns: string[]): string[] {
+  return getOrderedColumns(layout, availableColumns).filter(
+    (column) => !layout.hidden.includes(column) || (layout.pinned && column === PINNABLE_COLUMN)
+  );
+}
+
+// Move a column before another one, starting from the full display order
+export function moveColumn(layout: ColumnLayout, availableColumns: string[], column: string, before: string): ColumnLayout {
+  if (column === before) return layout;
+
+  const order = getOrderedColumns(layout, availableColumns).filter((c) => c !== column);
+  const index = order.indexOf(before);
+  order.splice(index === -1 ? order.length : index, 0, column);
+
+  return { ...layout, order };
+}
+
+export function setColumnHidden(layout: ColumnLayout, column: string, isHidden: boolean): ColumnLayout {
+  const hidden = layout.hidden.filter((c) => c !== column);
+  return { ...layout, hidden: isHidden ? [...hidden, column] : hidden };
+}
+
+export function setColumnWidth(layout: ColumnLayout, column: string, width: number): ColumnLayout {
+  return { ...layout, widths: { ...layout.widths, [column]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } };
+}
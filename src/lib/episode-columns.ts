@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { SETTABLE_STATUS_COLUMNS } from "@/lib/pipeline";
+import type { EpisodeColumn, EpisodeUpdate } from "@/lib/episodes";
+
+// How a column is displayed and edited
+export type ColumnType =
+  | "text"
+  | "multiline"
+  | "url"
+  | "integer"
+  | "date"
+  | "time"
+  | "status"
+  | "readonly";
+
+export interface ColumnDefinition {
+  type: ColumnType;
+  // Allowed values for status columns
+  options?: readonly string[];
+  // How a read-only column compares when sorting; other columns compare by their type
+  sortAs?: "number" | "date" | "text";
+}
+
+// Type of every known column of the autoworkflow table; unknown columns are edited as plain text
+export const COLUMN_DEFINITIONS: Record<EpisodeColumn, ColumnDefinition> = {
+  created_at: { type: "readonly", sortAs: "date" },
+  episode_interview_file_name: { type: "text" },
+  episode_interview_file: { type: "url" },
+  id: { type: "readonly" },
+  episode_number: { type: "integer" },
+  source_document_file_name: { type: "text" },
+  source_document: { type: "multiline" },
+  episode_interview_full_script: { type: "url" },
+  episode_interview_script_1: { type: "url" },
+  episode_interview_script_2: { type: "url" },
+  episode_interview_script_3: { type: "url" },
+  episode_interview_script_4: { type: "url" },
+  episode_interview_script_status: { type: "status", options: SETTABLE_STATUS_COLUMNS.episode_interview_script_status },
+  episode_text_files_status: { type: "status", options: SETTABLE_STATUS_COLUMNS.episode_text_files_status },
+  podcast_status: { type: "status", options: SETTABLE_STATUS_COLUMNS.podcast_status },
+  episode_titles: { type: "multiline" },
+  episode_description: { type: "multiline" },
+  episode_intro_transcript: { type: "multiline" },
+  linkedin_post_copy: { type: "multiline" },
+  x_post_copy: { type: "multiline" },
+  podcast_excerpt: { type: "multiline" },
+  show_notes: { type: "multiline" },
+  episode_intro_audio_file: { type: "url" },
+  master_audio_file: { type: "url" },
+  master_audio_captions: { type: "multiline" },
+  master_audio_captions_audio_url: { type: "url" },
+  episode_cover_art: { type: "url" },
+  scheduled_date: { type: "date" },
+  unix_timestamp: { type: "integer" },
+  publish_date: { type: "date" },
+  publish_time: { type: "time" },
+  approved_by: { type: "readonly" },
+  approved_at: { type: "readonly", sortAs: "date" },
+  updated_by: { type: "readonly" },
+  deleted_at: { type: "readonly", sortAs: "date" },
+  deleted_by: { type: "readonly" },
+  version: { type: "readonly", sortAs: "number" },
+  updated_at: { type: "readonly", sortAs: "date" },
+};
+
+const TEXT_COLUMN: ColumnDefinition = { type: "text" };
+
+export function getColumnDefinition(column: string): ColumnDefinition {
+  return COLUMN_DEFINITIONS[column as EpisodeColumn] || TEXT_COLUMN;
+}
+
+export function isEditableColumn(column: string): boolean {
+  return getColumnDefinition(column).type !== "readonly";
+}
+
+// Blank editor values are stored as null
+const blankToNull = (value: string) => (value.trim() === "" ? null : value);
+
+const optional = (schema: z.ZodType<string>) =>
+  z.union([z.literal(""), schema]).transform(blankToNull);
+
+// Check a value typed into an editor and convert it to what is stored in the column
+const EDITOR_SCHEMAS: Record<Exclude<ColumnType, "status" | "readonly">, z.ZodType<unknown, z.ZodTypeDef, string>> = {
+  text: z.string().transform(blankToNull),
+  multiline: z.string().transform(blankToNull),
+  url: optional(z.string().trim().url({ message: "Must be a valid URL." })),
+  integer: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || /^-?\d+$/.test(value), { message: "Must be a whole number." })
+    .transform((value) => (value === "" ? null : Number(value))),
+  date: optional(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Must be a date (YYYY-MM-DD)." })),
+  time: optional(z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, { message: "Must be a time (HH:MM)." })),
+};
+
+export function getColumnSchema(column: string): z.ZodType<unknown, z.ZodTypeDef, string> {
+  const definition = getColumnDefinition(column);
+
+  if (definition.type === "status") {
+    const options = definition.options || [];
+    return z
+      .string()
+      .refine((value) => value === "" || options.includes(value), {
+        message: `Must be one of: ${options.join(", ")}.`,
+      })
+      .transform(blankToNull);
+  }
+
+  if (definition.type === "readonly") {
+    return z.string().refine(() => false, { message: "This column can't be edited." });
+  }
+
+  return EDITOR_SCHEMAS[definition.type];
+}
+
+// Show a stored value the way the column's editor expects it
+export function formatEditorValue(column: string, value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+
+  switch (getColumnDefinition(column).type) {
+    case "date": {
+      if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? text : date.toISOString().slice(0, 10);
+    }
+    case "time":
+      return /^\d{2}:\d{2}/.test(text) ? text.slice(0, 5) : text;
+    default:
+      return text;
+  }
+}
+
+// Validate typed values and convert them for storage; returns the first problem with each invalid column
+export function parseEditorValues(values: Record<string, string>): {
+  changes: EpisodeUpdate;
+  errors: Record<string, string>;
+} {
+  const changes: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  Object.entries(values).forEach(([column, value]) => {
+    const result = getColumnSchema(column).safeParse(value);
+    if (result.success) {
+      changes[column] = result.data;
+    } else {
+      errors[column] = result.error.issues[0]?.message || "Invalid value.";
+    }
+  });
+
+  return { changes: changes as EpisodeUpdate, errors };
+}
+
+// Columns of the episode detail page, grouped into sections; columns left out are shown under "Other"
+export const COLUMN_SECTIONS: { title: string; columns: readonly EpisodeColumn[] }[] = [
+  {
+    title: "Scripts",
+    columns: [
+      "episode_interview_script_status",
+      "episode_interview_file",
+      "source_document_file_name",
+      "source_document",
+      "episode_interview_full_script",
+      "episode_interview_script_1",
+      "episode_interview_script_2",
+      "episode_interview_script_3",
+      "episode_interview_script_4",
+      "approved_by",
+      "approved_at",
+    ],
+  },
+  {
+    title: "Marketing Copy",
+    columns: [
+      "episode_text_files_status",
+      "episode_titles",
+      "episode_description",
+      "episode_intro_transcript",
+      "linkedin_post_copy",
+      "x_post_copy",
+      "podcast_excerpt",
+      "show_notes",
+    ],
+  },
+  {
+    title: "Audio Assets",
+    columns: ["podcast_status", "episode_intro_audio_file", "master_audio_file", "master_audio_captions", "master_audio_captions_audio_url", "episode_cover_art"],
+  },
+  {
+    title: "Scheduling",
+    columns: ["scheduled_date", "publish_date", "publish_time", "unix_timestamp"],
+  },
+];
@@ -0,0 +1,59 @@
+import { getEpisodeValue, type Episode, type EpisodeUpdate } from "@/lib/episodes";
+import { formatEditorValue, isEditableColumn } from "@/lib/episode-columns";
+
+// Values typed into the inline editor, keyed by column
+export type EditedFields = Record<string, string>;
+
+// A column changed both by the editor and by someone else since editing started
+export interface EditConflict {
+  column: string;
+  // Value when editing started, the value now in the database, and the value typed by the editor
+  base: unknown;
+  theirs: unknown;
+  mine: string;
+}
+
+export type ConflictChoice = "mine" | "theirs";
+
+// How a stored value appears in a text input
+export function toEditableValue(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// Only the columns whose typed value differs from the row the editor started from, still as typed
+export function diffEditedFields(base: Episode, edited: EditedFields): EditedFields {
+  const changed: EditedFields = {};
+
+  Object.entries(edited).forEach(([column, value]) => {
+    if (isEditableColumn(column) && value !== formatEditorValue(column, getEpisodeValue(base, column))) {
+      changed[column] = value;
+    }
+  });
+
+  return changed;
+}
+
+// Columns the editor changed that someone else also changed to a different value in the meantime
+export function findEditConflicts(base: Episode, current: Episode, changes: EpisodeUpdate): EditConflict[] {
+  return Object.entries(changes).flatMap(([column, mine]) => {
+    const baseValue = getEpisodeValue(base, column);
+    const theirs = getEpisodeValue(current, column);
+
+    const theyChanged = toEditableValue(theirs) !== toEditableValue(baseValue);
+    const sameResult = toEditableValue(theirs) === toEditableValue(mine);
+
+    return theyChanged && !sameResult
+      ? [{ column, base: baseValue, theirs, mine: toEditableValue(mine) }]
+      : [];
+  });
+}
+
+// The changes to send after resolving conflicts; columns where "theirs" wins are left as they are
+export function resolveEditConflicts(
+  changes: EpisodeUpdate,
+  choices: Record<string, ConflictChoice>
+): EpisodeUpdate {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([column]) => choices[column] !== "theirs")
+  ) as EpisodeUpdate;
+}
@@ -0,0 +1,179 @@
+import { getEpisodeValue, type Episode } from "@/lib/episodes";
+import { STATUS_COLUMNS, type StatusColumn } from "@/lib/pipeline";
+
+// Columns searched by the free-text search box
+export const SEARCH_COLUMNS = ["episode_interview_file_name", "episode_titles", "episode_description"] as const;
+
+// Columns that can be narrowed to a date range
+export const DATE_FILTER_COLUMNS = ["created_at", "scheduled_date"] as const;
+export type DateFilterColumn = (typeof DATE_FILTER_COLUMNS)[number];
+
+export const DATE_FILTER_LABELS: Record<DateFilterColumn, string> = {
+  created_at: "Created",
+  scheduled_date: "Scheduled",
+};
+
+// Ranges relative to today, so a saved view keeps meaning the same thing next week
+export const DATE_PRESETS = ["today", "this_week", "next_7_days", "last_30_days", "this_month"] as const;
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: "Today",
+  this_week: "This week",
+  next_7_days: "Next 7 days",
+  last_30_days: "Last 30 days",
+  this_month: "This month",
+};
+
+// Either a preset or fixed bounds as YYYY-MM-DD, both inclusive; an empty bound is open-ended
+export interface DateRange {
+  preset?: DatePreset;
+  from?: string;
+  to?: string;
+}
+
+export type StatusMatch = "all" | "any";
+
+export interface EpisodeFilters {
+  search: string;
+  // Allowed values per status column; a column without values isn't filtered
+  statuses: Partial<Record<StatusColumn, string[]>>;
+  // Whether an episode has to match every filtered status column or just one of them; defaults to "all"
+  statusMatch?: StatusMatch;
+  dateRanges: Partial<Record<DateFilterColumn, DateRange>>;
+}
+
+export const EMPTY_FILTERS: EpisodeFilters = { search: "", statuses: {}, dateRanges: {} };
+
+// A named set of filters
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: EpisodeFilters;
+}
+
+// Views every user gets; they can't be deleted
+export const BUILT_IN_VIEWS: SavedView[] = [
+  {
+    id: "built-in:awaiting-approval",
+    name: "Awaiting approval",
+    filters: {
+      ...EMPTY_FILTERS,
+      statuses: { episode_interview_script_status: ["Pending", "Changes Requested"] },
+    },
+  },
+  {
+    id: "built-in:scheduled-this-week",
+    name: "Scheduled this week",
+    filters: {
+      ...EMPTY_FILTERS,
+      dateRanges: { scheduled_date: { preset: "this_week" } },
+    },
+  },
+  {
+    id: "built-in:failed",
+    name: "Failed",
+    filters: {
+      ...EMPTY_FILTERS,
+      // Failed at either step, which is the derived "failed" stage
+      statuses: { episode_text_files_status: ["Failed"], podcast_status: ["Failed"] },
+      statusMatch: "any",
+    },
+  },
+];
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Local calendar date as YYYY-MM-DD
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Turn a preset into fixed bounds for the given day; weeks start on Monday
+export function resolveDateRange(range: DateRange, now: Date = new Date()): { from: string | null; to: string | null } {
+  const today = startOfDay(now);
+
+  switch (range.preset) {
+    case "today":
+      return { from: toDateInputValue(today), to: toDateInputValue(today) };
+    case "this_week": {
+      const monday = addDays(today, -((today.getDay() + 6) % 7));
+      return { from: toDateInputValue(monday), to: toDateInputValue(addDays(monday, 6)) };
+    }
+    case "next_7_days":
+      return { from: toDateInputValue(today), to: toDateInputValue(addDays(today, 6)) };
+    case "last_30_days":
+      return { from: toDateInputValue(addDays(today, -29)), to: toDateInputValue(today) };
+    case "this_month":
+      return {
+        from: toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1)),
+        to: toDateInputValue(new Date(today.getFullYear(), today.getMonth() + 1, 0)),
+      };
+    default:
+      return { from: range.from || null, to: range.to || null };
+  }
+}
+
+// Calendar date of a stored value, or null when it isn't a date
+const toCalendarDate = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === "") return null;
+
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : toDateInputValue(date);
+};
+
+// Status columns with at least one allowed value selected
+export function getStatusFilterColumns(filters: EpisodeFilters): StatusColumn[] {
+  return (Object.keys(STATUS_COLUMNS) as StatusColumn[]).filter((column) => {
+    const allowed = filters.statuses[column];
+    return !!allowed && allowed.length > 0;
+  });
+}
+
+export function hasActiveFilters(filters: EpisodeFilters): boolean {
+  return (
+    filters.search.trim() !== "" ||
+    Object.values(filters.statuses).some((values) => values && values.length > 0) ||
+    Object.values(filters.dateRanges).some((range) => range && (range.preset || range.from || range.to))
+  );
+}
+
+// Check an episode against every active filter; the server applies the same rules in episode-query
+export function matchesFilters(episode: Episode, filters: EpisodeFilters, now: Date = new Date()): boolean {
+  // Every word has to appear in at least one of the searched columns
+  const words = filters.search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    const haystack = SEARCH_COLUMNS.map((column) => String(getEpisodeValue(episode, column) ?? ""))
+      .join(" ")
+      .toLowerCase();
+    if (!words.every((word) => haystack.includes(word))) return false;
+  }
+
+  const statusResults = getStatusFilterColumns(filters).map((column) =>
+    (filters.statuses[column] as string[]).includes(episode[column] || "")
+  );
+  if (statusResults.length > 0) {
+    const matchesStatuses = filters.statusMatch === "any" ? statusResults.some(Boolean) : statusResults.every(Boolean);
+    if (!matchesStatuses) return false;
+  }
+
+  for (const column of DATE_FILTER_COLUMNS) {
+    const range = filters.dateRanges[column];
+    if (!range) continue;
+
+    const { from, to } = resolveDateRange(range, now);
+    if (!from && !to) continue;
+
+    const date = toCalendarDate(getEpisodeValue(episode, column));
+    if (!date) return false;
+    if (from && date < from) return false;
+    if (to && date > to) return false;
+  }
+
+  return true;
+}
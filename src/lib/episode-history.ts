@@ -0,0 +1,119 @@
+import { supabase } from "@/lib/supabase";
+import { PermissionDeniedError, can, getCurrentUser } from "@/lib/auth";
+import { EPISODES_TABLE, listEpisodesByIds, updateEpisode, type Episode, type EpisodeUpdate } from "@/lib/episodes";
+
+// Name of the append-only Supabase table filled by the autoworkflow_history trigger
+const EPISODE_HISTORY_TABLE = "episode_history";
+
+export const HISTORY_ACTIONS = ["create", "update", "approve", "trash", "untrash", "delete", "undelete"] as const;
+export type HistoryAction = (typeof HISTORY_ACTIONS)[number];
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+  create: "Created",
+  update: "Changed",
+  approve: "Approved",
+  trash: "Moved to Trash",
+  untrash: "Restored from Trash",
+  delete: "Purged",
+  undelete: "Undeleted",
+};
+
+// A single row of the episode_history table
+export interface EpisodeHistoryEntry {
+  id: string;
+  created_at: string;
+  episode_id: string;
+  action: HistoryAction;
+  // Changed column for updates and approvals; null for whole-row entries
+  field: string | null;
+  // Previous and new value of the field, or the whole row for creates, deletes and undeletes
+  old_value: unknown;
+  new_value: unknown;
+  actor: string;
+}
+
+// Columns that are managed by the database or the app and can't be restored by hand
+const UNRESTORABLE_FIELDS = ["id", "created_at", "updated_by", "approved_by", "approved_at", "deleted_at", "deleted_by"];
+
+// Raised when an undelete is attempted on an episode that still exists
+export class EpisodeExistsError extends Error {
+  constructor(public episodeId: string) {
+    super("This episode has already been restored");
+    this.name = "EpisodeExistsError";
+  }
+}
+
+// Fetch the full history of one episode, newest first
+export async function listEpisodeHistory(episodeId: string): Promise<EpisodeHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from(EPISODE_HISTORY_TABLE)
+    .select("*")
+    .eq("episode_id", episodeId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as EpisodeHistoryEntry[];
+}
+
+// Fetch recent purges, newest first; episodes that were undeleted since are left out
+export async function listDeletedEpisodes(limit = 50): Promise<EpisodeHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from(EPISODE_HISTORY_TABLE)
+    .select("*")
+    .eq("action", "delete")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+
+  const entries = (data || []) as EpisodeHistoryEntry[];
+  const existing = await listEpisodesByIds([...new Set(entries.map((entry) => entry.episode_id))]);
+  const existingIds = new Set(existing.map((episode) => String(episode.id)));
+  const seen = new Set<string>();
+
+  // Keep only the latest deletion of each episode that is still gone
+  return entries.filter((entry) => {
+    if (existingIds.has(entry.episode_id) || seen.has(entry.episode_id)) return false;
+    seen.add(entry.episode_id);
+    return true;
+  });
+}
+
+// Check whether an entry holds a single field value that can be put back
+export function canRestoreField(entry: EpisodeHistoryEntry): boolean {
+  return (entry.action === "update" || entry.action === "approve") &&
+    !!entry.field &&
+    !UNRESTORABLE_FIELDS.includes(entry.field);
+}
+
+// Put a field back to the value it had before the given change; goes through the usual pipeline and role checks.
+// The write expects the version of the row the timeline was shown for, so a newer edit isn't overwritten.
+export async function restoreEpisodeField(entry: EpisodeHistoryEntry, expectedVersion: number): Promise<Episode> {
+  if (!canRestoreField(entry) || !entry.field) {
+    throw new Error("This change can't be restored");
+  }
+
+  return updateEpisode(entry.episode_id, { [entry.field]: entry.old_value ?? null } as EpisodeUpdate, expectedVersion);
+}
+
+// Re-insert a purged episode from the snapshot taken when it was deleted, straight back into the live list
+export async function undeleteEpisode(entry: EpisodeHistoryEntry): Promise<Episode> {
+  if (!can(getCurrentUser(), "delete")) throw new PermissionDeniedError("delete");
+  if (entry.action !== "delete" || !entry.old_value) {
+    throw new Error("Only deletions can be undone");
+  }
+
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .insert({ ...(entry.old_value as Episode), deleted_at: null, deleted_by: null })
+    .select("*")
+    .single();
+
+  if (error) {
+    // 23505 is Postgres' unique violation: the row is already back
+    if (error.code === "23505") throw new EpisodeExistsError(entry.episode_id);
+    throw new Error(error.message);
+  }
+
+  return data as Episode;
+}
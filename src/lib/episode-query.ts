@@ -0,0 +1,112 @@
+import { supabase } from "@/lib/supabase";
+import { EPISODES_TABLE, type Episode } from "@/lib/episodes";
+import { getColumnDefinition } from "@/lib/episode-columns";
+import {
+  DATE_FILTER_COLUMNS,
+  SEARCH_COLUMNS,
+  getStatusFilterColumns,
+  resolveDateRange,
+  type EpisodeFilters,
+} from "@/lib/episode-filters";
+import { getOrderColumn, type EpisodeSort } from "@/lib/episode-sort";
+
+// Rows fetched per request while scrolling through the episodes list
+export const EPISODE_PAGE_SIZE = 50;
+
+// Which rows of the table to fetch, in which order
+export interface EpisodeQuery {
+  filters: EpisodeFilters;
+  sort: EpisodeSort;
+}
+
+export interface EpisodePage {
+  episodes: Episode[];
+  // Rows matching the filters, and live rows in the whole table
+  matchingCount: number;
+  totalCount: number;
+}
+
+// Characters with a meaning in PostgREST filters or LIKE patterns are dropped from search words
+const toSearchWord = (word: string): string => word.replace(/[%_*\\"(),.]/g, "");
+
+// Midnight at the start of a local calendar day, as an ISO timestamp
+const startOfLocalDay = (date: string, dayOffset: number = 0): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day + dayOffset).toISOString();
+};
+
+// Build the query for the rows matching the filters; mirrors matchesFilters in episode-filters
+function buildFilteredQuery(filters: EpisodeFilters) {
+  let query = supabase.from(EPISODES_TABLE).select("*", { count: "exact" }).is("deleted_at", null);
+
+  // Every word has to appear in at least one of the searched columns
+  filters.search
+    .trim()
+    .split(/\s+/)
+    .map(toSearchWord)
+    .filter(Boolean)
+    .forEach((word) => {
+      query = query.or(SEARCH_COLUMNS.map((column) => `${column}.ilike.%${word}%`).join(","));
+    });
+
+  const statusColumns = getStatusFilterColumns(filters);
+  if (filters.statusMatch === "any" && statusColumns.length > 1) {
+    // Status values may contain spaces, so each one is quoted
+    query = query.or(
+      statusColumns
+        .map((column) => `${column}.in.(${(filters.statuses[column] as string[]).map((value) => `"${value}"`).join(",")})`)
+        .join(",")
+    );
+  } else {
+    statusColumns.forEach((column) => {
+      query = query.in(column, filters.statuses[column] as string[]);
+    });
+  }
+
+  const now = new Date();
+  DATE_FILTER_COLUMNS.forEach((column) => {
+    const range = filters.dateRanges[column];
+    if (!range) return;
+
+    const { from, to } = resolveDateRange(range, now);
+
+    // Date columns compare as calendar dates, timestamps by the local day they fall on
+    if (getColumnDefinition(column).type === "date") {
+      if (from) query = query.gte(column, from);
+      if (to) query = query.lte(column, to);
+    } else {
+      if (from) query = query.gte(column, startOfLocalDay(from));
+      if (to) query = query.lt(column, startOfLocalDay(to, 1));
+    }
+  });
+
+  return query;
+}
+
+// Fetch rows [offset, offset + limit) of the live episodes matching the query, sorted on the server
+export async function listEpisodesPage(query: EpisodeQuery, offset: number, limit: number): Promise<EpisodePage> {
+  let request = buildFilteredQuery(query.filters);
+
+  query.sort.keys.forEach((key) => {
+    request = request.order(getOrderColumn(key.column), {
+      ascending: key.direction === "asc",
+      nullsFirst: query.sort.nulls === "first",
+    });
+  });
+  // A unique tie-breaker keeps rows from moving between pages
+  request = request.order("id", { ascending: true });
+
+  const [page, total] = await Promise.all([
+    request.range(offset, offset + limit - 1),
+    supabase.from(EPISODES_TABLE).select("id", { count: "exact", head: true }).is("deleted_at", null),
+  ]);
+
+  if (page.error) throw new Error(page.error.message);
+  if (total.error) throw new Error(total.error.message);
+
+  return {
+    episodes: (page.data || []) as Episode[],
+    matchingCount: page.count ?? 0,
+    totalCount: total.count ?? 0,
+  };
+}
@@ -0,0 +1,178 @@
+import { getColumnDefinition } from "@/lib/episode-columns";
+import { EPISODE_COLUMNS, getEpisodeValue, type Episode } from "@/lib/episodes";
+
+export type SortDirection = "asc" | "desc";
+
+// Where empty values go, whichever way a column is sorted
+export type NullPlacement = "first" | "last";
+
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
+
+// Columns to sort by, most significant first
+export interface EpisodeSort {
+  keys: SortKey[];
+  nulls: NullPlacement;
+}
+
+export const DEFAULT_SORT: EpisodeSort = { keys: [], nulls: "last" };
+
+// Query parameters that keep the sort in the URL, e.g. ?sort=podcast_status:asc,created_at:desc&nulls=first
+const SORT_PARAM = "sort";
+const NULLS_PARAM = "nulls";
+
+
+type SortType = "number" | "date" | "text";
+
+// Column names end up in the database query, so only columns the app knows are sorted by; a stale or
+// hand-edited URL naming anything else would make every page request fail
+export function isSortableColumn(column: string): boolean {
+  return (EPISODE_COLUMNS as readonly string[]).includes(column);
+}
+
+// How values of a column compare, based on its column type
+export function getSortType(column: string): SortType {
+  const definition = getColumnDefinition(column);
+  if (definition.sortAs) return definition.sortAs;
+
+  switch (definition.type) {
+    case "integer":
+      return "number";
+    case "date":
+      return "date";
+    default:
+      return "text";
+  }
+}
+
+// Whether the database orders a column by its computed <column>_sort_key; every text column except the id does
+// (see supabase/migrations/20261019000900_episode_sort_keys.sql, which lists the same columns)
+export function hasSortKey(column: string): boolean {
+  return isSortableColumn(column) && column !== "id" && getSortType(column) === "text";
+}
+
+// Column the database orders by for a sort key
+export function getOrderColumn(column: string): string {
+  return hasSortKey(column) ? `${column}_sort_key` : column;
+}
+
+// Only NULL counts as empty, as in the database's NULLS FIRST / NULLS LAST; an empty string sorts as text
+const isEmpty = (value: unknown): boolean => value === null || value === undefined;
+
+const compareCodeUnits = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// Compare text by the same key the database orders by: case-insensitively, then as written to break ties
+const compareText = (a: unknown, b: unknown): number => {
+  const textA = String(a);
+  const textB = String(b);
+  return compareCodeUnits(`${textA.toLowerCase()}\u0001${textA}`, `${textB.toLowerCase()}\u0001${textB}`);
+};
+
+// Compare two non-empty values of a column; values that don't fit the column type compare as text
+function compareValues(a: unknown, b: unknown, type: SortType): number {
+  if (type === "number") {
+    const numberA = Number(a);
+    const numberB = Number(b);
+    if (!isNaN(numberA) && !isNaN(numberB)) return numberA - numberB;
+  }
+
+  if (type === "date") {
+    const timeA = Date.parse(String(a));
+    const timeB = Date.parse(String(b));
+    if (!isNaN(timeA) && !isNaN(timeB)) return timeA - timeB;
+  }
+
+  return compareText(a, b);
+}
+
+// Order two episodes like the server does: by each sort key in turn, then by id
+export function compareEpisodes(a: Episode, b: Episode, sort: EpisodeSort): number {
+  for (const key of sort.keys) {
+    const valueA = getEpisodeValue(a, key.column);
+    const valueB = getEpisodeValue(b, key.column);
+
+    if (isEmpty(valueA) && isEmpty(valueB)) continue;
+    if (isEmpty(valueA)) return sort.nulls === "first" ? -1 : 1;
+    if (isEmpty(valueB)) return sort.nulls === "first" ? 1 : -1;
+
+    const result = compareValues(valueA, valueB, getSortType(key.column));
+    if (result !== 0) return key.direction === "asc" ? result : -result;
+  }
+
+  return compareCodeUnits(String(a.id), String(b.id));
+}
+
+// Clicking a header sorts by that column alone, cycling ascending, descending and unsorted;
+// with shift the column is added to the sort, or cycled in place if it's already part of it
+export function toggleSortKey(sort: EpisodeSort, column: string, isAdditive: boolean): EpisodeSort {
+  if (!isSortableColumn(column)) return sort;
+
+  const existing = sort.keys.find((key) => key.column === column);
+
+  if (!isAdditive) {
+    if (existing && sort.keys.length === 1) {
+      return { ...sort, keys: existing.direction === "asc" ? [{ column, direction: "desc" }] : [] };
+    }
+    return { ...sort, keys: [{ column, direction: "asc" }] };
+  }
+
+  if (!existing) {
+    return { ...sort, keys: [...sort.keys, { column, direction: "asc" }] };
+  }
+
+  if (existing.direction === "asc") {
+    return {
+      ...sort,
+      keys: sort.keys.map((key) => (key.column === column ? { column, direction: "desc" } : key)),
+    };
+  }
+
+  return { ...sort, keys: sort.keys.filter((key) => key.column !== column) };
+}
+
+// Read the sort from a URL query string
+export function parseSortParams(search: string): EpisodeSort {
+  const params = new URLSearchParams(search);
+
+  const keys: SortKey[] = [];
+  (params.get(SORT_PARAM) || "").split(",").forEach((part) => {
+    const [column, direction] = part.split(":");
+    if (
+      isSortableColumn(column || "") &&
+      (direction === "asc" || direction === "desc") &&
+      !keys.some((key) => key.column === column)
+    ) {
+      keys.push({ column, direction });
+    }
+  });
+
+  const nulls = params.get(NULLS_PARAM);
+
+  return {
+    keys,
+    nulls: nulls === "first" || nulls === "last" ? nulls : DEFAULT_SORT.nulls,
+  };
+}
+
+// Write the sort into a URL query string, keeping any other parameters
+export function toSortSearch(search: string, sort: EpisodeSort): string {
+  const params = new URLSearchParams(search);
+
+  if (sort.keys.length > 0) {
+    params.set(SORT_PARAM, sort.keys.map((key) => `${key.column}:${key.direction}`).join(","));
+  } else {
+    params.delete(SORT_PARAM);
+  }
+
+  if (sort.nulls !== DEFAULT_SORT.nulls) {
+    params.set(NULLS_PARAM, sort.nulls);
+  } else {
+    params.delete(NULLS_PARAM);
+  }
+
+  // Colons and commas are valid in a query string, so keep them readable
+  const query = params.toString().replace(/%3A/g, ":").replace(/%2C/g, ",");
+  return query ? `?${query}` : "";
+}
@@ -0,0 +1,384 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { affectsPipeline, assertTransition } from "@/lib/pipeline";
+import { PermissionDeniedError, can, getCurrentUser } from "@/lib/auth";
+
+// Name of the Supabase table that backs every episode
+export const EPISODES_TABLE = "autoworkflow";
+
+// Every known column of the autoworkflow table, in the order the episodes list displays them
+export const EPISODE_COLUMNS = [
+  "created_at",
+  "episode_interview_file_name",
+  "episode_interview_file",
+  "id",
+  "episode_number",
+  "source_document_file_name",
+  "source_document",
+  "episode_interview_full_script",
+  "episode_interview_script_1",
+  "episode_interview_script_2",
+  "episode_interview_script_3",
+  "episode_interview_script_4",
+  "episode_interview_script_status",
+  "episode_text_files_status",
+  "podcast_status",
+  "episode_titles",
+  "episode_description",
+  "episode_intro_transcript",
+  "linkedin_post_copy",
+  "x_post_copy",
+  "podcast_excerpt",
+  "show_notes",
+  "episode_intro_audio_file",
+  "master_audio_file",
+  "master_audio_captions",
+  "master_audio_captions_audio_url",
+  "episode_cover_art",
+  "scheduled_date",
+  "unix_timestamp",
+  "publish_date",
+  "publish_time",
+  "approved_by",
+  "approved_at",
+  "updated_by",
+  "deleted_at",
+  "deleted_by",
+  "version",
+  "updated_at",
+] as const;
+
+export type EpisodeColumn = (typeof EPISODE_COLUMNS)[number];
+
+// A single row of the autoworkflow table
+export interface Episode {
+  id: string;
+  created_at: string;
+  episode_interview_file_name: string | null;
+  episode_interview_file: string | null;
+  episode_number: number | null;
+  source_document_file_name: string | null;
+  source_document: string | null;
+  episode_interview_full_script: string | null;
+  episode_interview_script_1: string | null;
+  episode_interview_script_2: string | null;
+  episode_interview_script_3: string | null;
+  episode_interview_script_4: string | null;
+  episode_interview_script_status: string | null;
+  episode_text_files_status: string | null;
+  podcast_status: string | null;
+  episode_titles: string | null;
+  episode_description: string | null;
+  episode_intro_transcript: string | null;
+  linkedin_post_copy: string | null;
+  x_post_copy: string | null;
+  podcast_excerpt: string | null;
+  show_notes: string | null;
+  episode_intro_audio_file: string | null;
+  master_audio_file: string | null;
+  // WebVTT captions aligning the full script with master_audio_file
+  master_audio_captions: string | null;
+  // The master_audio_file the captions were aligned to; captions for any other file are stale
+  master_audio_captions_audio_url: string | null;
+  episode_cover_art: string | null;
+  scheduled_date: string | null;
+  unix_timestamp: number | null;
+  publish_date: string | null;
+  publish_time: string | null;
+  // Who approved the scripts for audio, and when
+  approved_by: string | null;
+  approved_at: string | null;
+  // Last user to change the row from the app
+  updated_by: string | null;
+  // Set while the episode is in the trash
+  deleted_at: string | null;
+  deleted_by: string | null;
+  // Bumped by the database on every write, for optimistic concurrency
+  version: number;
+  updated_at: string | null;
+}
+
+// Columns that may be written by the UI - the primary key, creation time and version are managed by the database
+export type EpisodeUpdate = Partial<Omit<Episode, "id" | "created_at" | "version" | "updated_at">>;
+
+// Raised when a write expected an older version of the row than the one in the database
+export class EpisodeConflictError extends Error {
+  constructor(public current: Episode) {
+    super("This episode was changed by someone else while you were editing it");
+    this.name = "EpisodeConflictError";
+  }
+}
+
+// Script links and statuses shown by the form and the approval dialog
+export type ScriptLinks = Pick<
+  Episode,
+  | "episode_interview_script_1"
+  | "episode_interview_script_2"
+  | "episode_interview_script_3"
+  | "episode_interview_script_4"
+  | "episode_interview_full_script"
+  | "episode_interview_file"
+  | "episode_interview_script_status"
+  | "episode_text_files_status"
+  | "podcast_status"
+>;
+
+// Columns holding links to generated scripts, in display order
+export const SCRIPT_LINK_KEYS = [
+  "episode_interview_script_1",
+  "episode_interview_script_2",
+  "episode_interview_script_3",
+  "episode_interview_script_4",
+  "episode_interview_full_script",
+  "episode_interview_file",
+] as const;
+
+export type ScriptLinkKey = (typeof SCRIPT_LINK_KEYS)[number];
+
+// Script links for a deselected or not yet generated episode
+export const EMPTY_SCRIPT_LINKS: ScriptLinks = {
+  episode_interview_script_1: null,
+  episode_interview_script_2: null,
+  episode_interview_script_3: null,
+  episode_interview_script_4: null,
+  episode_interview_full_script: null,
+  episode_interview_file: null,
+  episode_interview_script_status: null,
+  episode_text_files_status: null,
+  podcast_status: null,
+};
+
+// Extract the script links and statuses from an episode row, normalizing empty values to null
+export function toScriptLinks(episode: Partial<Episode>): ScriptLinks {
+  return {
+    episode_interview_script_1: episode.episode_interview_script_1 || null,
+    episode_interview_script_2: episode.episode_interview_script_2 || null,
+    episode_interview_script_3: episode.episode_interview_script_3 || null,
+    episode_interview_script_4: episode.episode_interview_script_4 || null,
+    episode_interview_full_script: episode.episode_interview_full_script || null,
+    episode_interview_file: episode.episode_interview_file || null,
+    episode_interview_script_status: episode.episode_interview_script_status || null,
+    episode_text_files_status: episode.episode_text_files_status || null,
+    podcast_status: episode.podcast_status || null,
+  };
+}
+
+// Check whether any of the four interview scripts has been generated
+export function hasAnyScript(links: Partial<ScriptLinks>): boolean {
+  return !!(
+    links.episode_interview_script_1 ||
+    links.episode_interview_script_2 ||
+    links.episode_interview_script_3 ||
+    links.episode_interview_script_4
+  );
+}
+
+// Read a column by name, including columns that exist in the table but not in EPISODE_COLUMNS
+export function getEpisodeValue(episode: Episode, column: string): unknown {
+  return (episode as unknown as Record<string, unknown>)[column];
+}
+
+// Sort newest first by created_at
+const byNewest = (a: Episode, b: Episode): number => {
+  const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+  const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+  return dateB - dateA;
+};
+
+// Find the most recent episode with the given interview file name in an already loaded list
+export function findEpisodeByName(episodes: Episode[], episodeName: string): Episode | null {
+  const matches = episodes.filter((episode) => episode.episode_interview_file_name === episodeName);
+  if (matches.length === 0) return null;
+
+  return [...matches].sort(byNewest)[0];
+}
+
+// Quote a value for a PostgREST filter, so commas, parentheses and quotes in it are taken literally
+const quoteFilterValue = (value: string): string => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// Escape the wildcards of a LIKE pattern
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Fetch the episodes with the given ids, trashed ones included
+export async function listEpisodesByIds(ids: string[]): Promise<Episode[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase.from(EPISODES_TABLE).select("*").in("id", ids);
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Fetch every episode that is not in the trash and has one of the given interview file names, ignoring case
+export async function listEpisodesByName(names: string[]): Promise<Episode[]> {
+  const patterns = [...new Set(names.map((name) => name.trim()).filter(Boolean))];
+  if (patterns.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .is("deleted_at", null)
+    .or(patterns.map((name) => `episode_interview_file_name.ilike.${quoteFilterValue(escapeLikePattern(name))}`).join(","));
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Fetch the most recent episode with the given interview file name, or null if there is none; trashed episodes are skipped
+export async function getEpisodeByName(episodeName: string): Promise<Episode | null> {
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .eq("episode_interview_file_name", episodeName)
+    .is("deleted_at", null);
+
+  if (error) throw new Error(error.message);
+
+  const episodes = (data || []) as Episode[];
+  if (episodes.length === 0) return null;
+
+  return [...episodes].sort(byNewest)[0];
+}
+
+// Fetch a single episode by its primary key, or null if it does not exist
+export async function getEpisodeById(id: string): Promise<Episode | null> {
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  return (data as Episode | null) || null;
+}
+
+// Write the given columns of an episode and return the updated row.
+// Writes that touch status, script or publishing columns are checked against the pipeline first
+// and rejected with UnknownStatusError or IllegalTransitionError.
+// With an expected version the write only goes through if nobody changed the row since it was read,
+// otherwise it is rejected with EpisodeConflictError.
+export async function updateEpisode(id: string, changes: EpisodeUpdate, expectedVersion?: number): Promise<Episode> {
+  const user = getCurrentUser();
+  let approval: EpisodeUpdate = {};
+
+  if (affectsPipeline(changes)) {
+    const current = await getEpisodeById(id);
+    if (!current) throw new Error(`Episode ${id} no longer exists`);
+    assertTransition(current, changes);
+
+    // Only reviewers approve scripts, and the approval records who gave it
+    if (changes.episode_interview_script_status === "Approved" && current.episode_interview_script_status !== "Approved") {
+      if (!can(user, "approve")) throw new PermissionDeniedError("approve");
+      approval = { approved_by: user?.email || null, approved_at: new Date().toISOString() };
+    }
+  }
+
+  let query = supabase
+    .from(EPISODES_TABLE)
+    .update({ ...changes, ...approval, ...(user ? { updated_by: user.email } : {}) })
+    .eq("id", id);
+
+  if (expectedVersion !== undefined) {
+    query = query.eq("version", expectedVersion);
+  }
+
+  const { data, error } = await query.select("*").maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  // No row matched: either it is gone or its version moved on
+  if (!data) {
+    const current = expectedVersion !== undefined ? await getEpisodeById(id) : null;
+    if (!current) throw new Error(`Episode ${id} no longer exists`);
+    throw new EpisodeConflictError(current);
+  }
+
+  return data as Episode;
+}
+
+// Move an episode to the trash; it stays restorable until the retention window has passed
+export async function trashEpisode(id: string): Promise<Episode> {
+  const user = getCurrentUser();
+  if (!can(user, "delete")) throw new PermissionDeniedError("delete");
+
+  return updateEpisode(id, { deleted_at: new Date().toISOString(), deleted_by: user?.email || null });
+}
+
+// Fetch every episode in the trash, most recently trashed first
+export async function listTrashedEpisodes(): Promise<Episode[]> {
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Take episodes back out of the trash and return the restored rows
+export async function restoreEpisodes(ids: string[]): Promise<Episode[]> {
+  const user = getCurrentUser();
+  if (!can(user, "delete")) throw new PermissionDeniedError("delete");
+
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .update({ deleted_at: null, deleted_by: null, updated_by: user?.email || null })
+    .in("id", ids)
+    .select("*");
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Permanently remove trashed episodes; episodes that are not in the trash are left alone
+export async function purgeEpisodes(ids: string[]): Promise<void> {
+  if (!can(getCurrentUser(), "delete")) throw new PermissionDeniedError("delete");
+
+  const { error } = await supabase
+    .from(EPISODES_TABLE)
+    .delete()
+    .in("id", ids)
+    .not("deleted_at", "is", null);
+
+  if (error) throw new Error(error.message);
+}
+
+// Days a trashed episode is kept before it is purged; the nightly purge job in the database uses the same window
+export const TRASH_RETENTION_DAYS = 30;
+
+// When a trashed episode will be purged for good
+export function getPurgeDate(episode: Pick<Episode, "deleted_at">, retentionDays: number = TRASH_RETENTION_DAYS): Date | null {
+  if (!episode.deleted_at) return null;
+
+  const deletedAt = new Date(episode.deleted_at);
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Connection states reported by the realtime channel
+export type RealtimeChannelStatus = "SUBSCRIBED" | "TIMED_OUT" | "CLOSED" | "CHANNEL_ERROR";
+
+// Listen for INSERT, UPDATE and DELETE events on the episodes table; returns an unsubscribe function
+export function subscribeToEpisodeChanges(
+  channelName: string,
+  onChange: (payload: RealtimePostgresChangesPayload<Episode>) => void,
+  onStatus?: (status: RealtimeChannelStatus) => void
+): () => void {
+  const channel = supabase
+    .channel(channelName)
+    .on<Episode>("postgres_changes", {
+      event: "*",
+      schema: "public",
+      table: EPISODES_TABLE,
+    }, onChange)
+    .subscribe((status) => onStatus?.(status as RealtimeChannelStatus));
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { config } from "@/lib/config";
+import { extractUrlSource, getSourceDocumentValue, type SourceDocument } from "@/lib/source-documents";
+import type { Episode, ScriptLinkKey } from "@/lib/episodes";
+
+// Same rule the single-episode form has always applied
+export const episodeNameSchema = z.string().trim().min(3, {
+  message: "Episode name must be at least 3 characters.",
+});
+
+// Raised when the generation webhook answers with a non-2xx status
+export class WebhookResponseError extends Error {
+  constructor(public readonly status: number, public readonly details: string) {
+    super(`Server responded with status ${status}`);
+    this.name = "WebhookResponseError";
+  }
+}
+
+// Turn "q3_interview-acme.pdf" into "q3 interview acme"
+export function deriveEpisodeName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Post a source to the generation webhook and resolve with its parsed JSON body (or null when it isn't JSON).
+// PDFs go in pdfFile as before; other formats are sent as their extracted text.
+// Uses XMLHttpRequest rather than fetch so callers can follow the upload progress.
+export function sendGenerationRequest(
+  episodeName: string,
+  source: SourceDocument,
+  onProgress?: (percent: number) => void
+): Promise<unknown> {
+  const formData = new FormData();
+  formData.append("episodeName", episodeName);
+  formData.append("sourceType", source.kind);
+  formData.append("sourceDocumentFileName", source.fileName);
+
+  if (source.kind === "pdf" && source.file) {
+    formData.append("pdfFile", source.file);
+  } else {
+    formData.append("sourceText", source.text || "");
+  }
+
+  const sourceDocument = getSourceDocumentValue(source);
+  if (sourceDocument) {
+    formData.append("sourceDocument", sourceDocument);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", config.generationWebhookUrl);
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    request.onload = () => {
+      if (request.status < 200 || request.status >= 300) {
+        reject(new WebhookResponseError(request.status, request.responseText || "Could not read error response"));
+        return;
+      }
+
+      onProgress?.(100);
+      try {
+        resolve(request.responseText ? JSON.parse(request.responseText) : null);
+      } catch (parseError) {
+        console.error("Error parsing response:", parseError);
+        resolve(null);
+      }
+    };
+
+    request.onerror = () => reject(new Error("Network error while contacting the generation webhook"));
+    request.onabort = () => reject(new Error("Upload was aborted"));
+
+    // No need to set Content-Type header as it will be automatically set with the boundary
+    request.send(formData);
+  });
+}
+
+// Ask the regeneration workflow to redo a single script, passing along the reviewer's feedback. It has its own
+// webhook, since the generation workflow only understands a new submission (see VITE_REGENERATION_WEBHOOK_URL).
+export async function requestScriptRegeneration(
+  episode: Pick<Episode, "id" | "episode_interview_file_name">,
+  scriptKey: ScriptLinkKey,
+  comment: string | null
+): Promise<void> {
+  if (!config.regenerationWebhookUrl) throw new Error("No regeneration webhook is configured.");
+
+  const response = await fetch(config.regenerationWebhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      episodeId: episode.id,
+      episodeName: episode.episode_interview_file_name,
+      scriptKey,
+      comment,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Could not read error response");
+    throw new WebhookResponseError(response.status, errorText);
+  }
+}
+
+// Raised when an episode can't be generated again because its source wasn't kept
+export class MissingSourceError extends Error {
+  constructor(episodeName: string) {
+    super(`"${episodeName}" has no stored source document to generate from. PDF sources are not kept.`);
+    this.name = "MissingSourceError";
+  }
+}
+
+// Rebuild the source an episode was generated from: web articles are fetched again, text is sent as stored
+export async function getStoredSource(
+  episode: Pick<Episode, "source_document" | "source_document_file_name">
+): Promise<SourceDocument | null> {
+  const stored = episode.source_document?.trim();
+  if (!stored) return null;
+
+  if (/^https?:\/\//.test(stored)) return extractUrlSource(stored);
+
+  return {
+    kind: "text",
+    fileName: episode.source_document_file_name || "source.txt",
+    file: null,
+    url: null,
+    text: stored,
+  };
+}
+
+// Send an existing episode's stored source to the generation webhook again
+export async function rerunGeneration(
+  episode: Pick<Episode, "episode_interview_file_name" | "source_document" | "source_document_file_name">
+): Promise<SourceDocument> {
+  const episodeName = episode.episode_interview_file_name || "";
+  const source = await getStoredSource(episode);
+  if (!episodeName || !source) throw new MissingSourceError(episodeName || "This episode");
+
+  await sendGenerationRequest(episodeName, source);
+  return source;
+}
@@ -0,0 +1,193 @@
+import { config } from "@/lib/config";
+import type { Episode } from "@/lib/episodes";
+import { zonedTimeToInstant } from "@/lib/timezone";
+
+// Values allowed in episode_interview_script_status
+export const SCRIPT_STATUSES = ["Pending", "Changes Requested", "Rejected", "Approved"] as const;
+
+// Values allowed in episode_text_files_status and podcast_status
+export const PROCESSING_STATUSES = ["Pending", "Processing", "Completed", "Failed", "Cancelled"] as const;
+
+export type ScriptStatus = (typeof SCRIPT_STATUSES)[number];
+export type ProcessingStatus = (typeof PROCESSING_STATUSES)[number];
+
+// Allowed values for every status column of the autoworkflow table
+export const STATUS_COLUMNS = {
+  episode_interview_script_status: SCRIPT_STATUSES,
+  episode_text_files_status: PROCESSING_STATUSES,
+  podcast_status: PROCESSING_STATUSES,
+} as const;
+
+export type StatusColumn = keyof typeof STATUS_COLUMNS;
+
+// Values a status column can be set to by hand. Scripts are only approved through the approval action,
+// which checks that every script was opened and approved first.
+export const SETTABLE_STATUS_COLUMNS: Record<StatusColumn, readonly string[]> = {
+  ...STATUS_COLUMNS,
+  episode_interview_script_status: SCRIPT_STATUSES.filter((status) => status !== "Approved"),
+};
+
+// Stages an episode moves through, from upload to publication
+export const PIPELINE_STAGES = [
+  "upload",
+  "scripts_generating",
+  "scripts_ready",
+  "approved",
+  "text_files",
+  "audio",
+  "scheduled",
+  "published",
+  "failed",
+  "cancelled",
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+// Human readable label for each stage
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  upload: "Upload",
+  scripts_generating: "Scripts Generating",
+  scripts_ready: "Scripts Ready",
+  approved: "Approved",
+  text_files: "Text Files",
+  audio: "Audio",
+  scheduled: "Scheduled",
+  published: "Published",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Stages reachable from each stage - staying in the same stage is always allowed
+export const STAGE_TRANSITIONS: Record<PipelineStage, readonly PipelineStage[]> = {
+  upload: ["scripts_generating", "scripts_ready", "failed", "cancelled"],
+  scripts_generating: ["scripts_ready", "failed", "cancelled"],
+  scripts_ready: ["approved", "scripts_generating", "failed", "cancelled"],
+  // Revoking an approval or requesting changes sends the scripts back for review
+  approved: ["scripts_ready", "text_files", "audio", "failed", "cancelled"],
+  text_files: ["audio", "failed", "cancelled"],
+  audio: ["scheduled", "published", "failed", "cancelled"],
+  scheduled: ["published", "audio", "failed", "cancelled"],
+  published: [],
+  failed: ["scripts_generating", "scripts_ready", "approved", "text_files", "audio", "cancelled"],
+  cancelled: [],
+};
+
+// Columns whose values feed into the derived stage
+export const PIPELINE_COLUMNS = [
+  "episode_interview_script_1",
+  "episode_interview_script_4",
+  "episode_interview_script_status",
+  "episode_text_files_status",
+  "podcast_status",
+  "scheduled_date",
+  "unix_timestamp",
+  "publish_date",
+  "publish_time",
+] as const;
+
+// Raised when a status column holds a value outside of STATUS_COLUMNS
+export class UnknownStatusError extends Error {
+  constructor(public column: StatusColumn, public value: string) {
+    super(`Unknown value "${value}" in ${column}`);
+    this.name = "UnknownStatusError";
+  }
+}
+
+// Raised when a write would move an episode to a stage it cannot reach from its current one
+export class IllegalTransitionError extends Error {
+  constructor(public from: PipelineStage, public to: PipelineStage) {
+    super(`An episode cannot move from "${STAGE_LABELS[from]}" to "${STAGE_LABELS[to]}"`);
+    this.name = "IllegalTransitionError";
+  }
+}
+
+// Check whether a value is allowed in the given status column; empty values are allowed everywhere
+export function isKnownStatus(column: StatusColumn, value: string | null | undefined): boolean {
+  if (!value) return true;
+  return (STATUS_COLUMNS[column] as readonly string[]).includes(value);
+}
+
+// Narrow a status column value, throwing UnknownStatusError for values outside the allowed list
+export function parseStatus(column: "episode_interview_script_status", value: string | null | undefined): ScriptStatus | null;
+export function parseStatus(column: "episode_text_files_status" | "podcast_status", value: string | null | undefined): ProcessingStatus | null;
+export function parseStatus(column: StatusColumn, value: string | null | undefined): string | null {
+  if (!value) return null;
+  if (!isKnownStatus(column, value)) throw new UnknownStatusError(column, value);
+  return value;
+}
+
+// Resolve the instant an episode goes live from whichever publishing fields are filled in
+export function getPublishInstant(episode: Partial<Episode>, timeZone: string = config.showTimeZone): Date | null {
+  if (episode.unix_timestamp) {
+    // Accept both seconds and milliseconds since the epoch
+    const timestamp = Number(episode.unix_timestamp);
+    return new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp);
+  }
+
+  const dateValue = episode.publish_date || episode.scheduled_date;
+  if (!dateValue) return null;
+
+  // Dates and times are wall-clock values in the show's time zone
+  return zonedTimeToInstant(String(dateValue).slice(0, 10), episode.publish_time || "00:00", timeZone);
+}
+
+// Work out which stage an episode is in; throws UnknownStatusError if a status column is invalid
+export function derivePipelineStage(episode: Partial<Episode>, now: Date = new Date()): PipelineStage {
+  const scriptStatus = parseStatus("episode_interview_script_status", episode.episode_interview_script_status);
+  const textFilesStatus = parseStatus("episode_text_files_status", episode.episode_text_files_status);
+  const podcastStatus = parseStatus("podcast_status", episode.podcast_status);
+
+  if (textFilesStatus === "Failed" || podcastStatus === "Failed") return "failed";
+  if (textFilesStatus === "Cancelled" || podcastStatus === "Cancelled") return "cancelled";
+
+  if (scriptStatus === "Approved") {
+    if (podcastStatus === "Completed") {
+      const publishInstant = getPublishInstant(episode);
+      if (!publishInstant) return "audio";
+      return publishInstant.getTime() <= now.getTime() ? "published" : "scheduled";
+    }
+    if (textFilesStatus === "Completed") return "audio";
+    if (textFilesStatus === "Processing") return "text_files";
+    return "approved";
+  }
+
+  if (episode.episode_interview_script_4) return "scripts_ready";
+  if (episode.episode_interview_script_1 || episode.episode_interview_file_name) return "scripts_generating";
+  return "upload";
+}
+
+// Current stage of an episode for display, with invalid status values reported instead of thrown
+export function getPipelineState(episode: Partial<Episode>): { stage: PipelineStage | null; error: UnknownStatusError | null } {
+  try {
+    return { stage: derivePipelineStage(episode), error: null };
+  } catch (err) {
+    if (err instanceof UnknownStatusError) {
+      return { stage: null, error: err };
+    }
+    throw err;
+  }
+}
+
+// Check whether an episode may move from one stage to another
+export function canTransition(from: PipelineStage, to: PipelineStage): boolean {
+  return from === to || STAGE_TRANSITIONS[from].includes(to);
+}
+
+// Validate a write against the pipeline: the new values must be known and the resulting stage reachable
+export function assertTransition(current: Partial<Episode>, changes: Partial<Episode>): void {
+  const next = { ...current, ...changes };
+  const nextStage = derivePipelineStage(next);
+
+  // A row that already holds an invalid status may be corrected to any valid stage
+  const { stage: currentStage } = getPipelineState(current);
+  if (currentStage === null) return;
+
+  if (!canTransition(currentStage, nextStage)) {
+    throw new IllegalTransitionError(currentStage, nextStage);
+  }
+}
+
+// Check whether a set of changes touches any column that feeds into the derived stage
+export function affectsPipeline(changes: Partial<Episode>): boolean {
+  return PIPELINE_COLUMNS.some((column) => column in changes);
+}
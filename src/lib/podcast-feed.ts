@@ -0,0 +1,266 @@
+import { supabase } from "@/lib/supabase";
+import { getPublishInstant } from "@/lib/pipeline";
+import { EPISODES_TABLE, type Episode } from "@/lib/episodes";
+
+// Show-level details written to the feed's <channel>
+export interface FeedChannel {
+  title: string;
+  description: string;
+  // Website of the show
+  link: string;
+  // Square artwork, 1400 to 3000 pixels wide
+  imageUrl: string;
+  author: string;
+  ownerName: string;
+  ownerEmail: string;
+  // BCP 47 language tag, e.g. "en-us"
+  language: string;
+  // Apple Podcasts category, e.g. "Business"
+  category: string;
+  explicit: boolean;
+}
+
+export const DEFAULT_FEED_CHANNEL: FeedChannel = {
+  title: "Marketing Execution Podcast",
+  description: "",
+  link: "",
+  imageUrl:
+    "https://www.dropbox.com/scl/fi/t23dfvn2vuvdu6qzp2hpe/MEP-logo-icon-1.png?rlkey=poppf0so6zcu9j1dwfjkm4ln9&st=til8cctg&dl=1",
+  author: "",
+  ownerName: "",
+  ownerEmail: "",
+  language: "en-us",
+  category: "Business",
+  explicit: false,
+};
+
+// Episodes left out of the feed ("error") or published with something missing ("warning")
+export type FeedIssueSeverity = "error" | "warning";
+
+export interface FeedIssue {
+  severity: FeedIssueSeverity;
+  // null for problems with the channel itself
+  episode: Episode | null;
+  field: string;
+  message: string;
+}
+
+// An episode as it appears in the feed
+export interface FeedItem {
+  episode: Episode;
+  guid: string;
+  title: string;
+  description: string;
+  showNotes: string | null;
+  audioUrl: string;
+  audioType: string;
+  imageUrl: string | null;
+  episodeNumber: number | null;
+  publishedAt: Date;
+}
+
+export interface PodcastFeed {
+  xml: string;
+  items: FeedItem[];
+  issues: FeedIssue[];
+}
+
+// MIME types of the audio files the pipeline produces, by extension
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/x-m4a",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+};
+
+const isHttpUrl = (value: string | null | undefined): value is string => !!value && /^https?:\/\//.test(value.trim());
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// episode_titles holds one or more candidate titles, one per line; the first one is published
+export function getEpisodeTitle(episode: Episode): string | null {
+  const line = (episode.episode_titles || "")
+    .split("\n")
+    .map((title) => title.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, "").replace(/^["“]|["”]$/g, "").trim())
+    .find((title) => title !== "");
+  return line || null;
+}
+
+export function getAudioType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() || "";
+  return AUDIO_TYPES[extension] || "audio/mpeg";
+}
+
+// Problems that would make the feed invalid or get it rejected by the directories
+export function validateChannel(channel: FeedChannel): FeedIssue[] {
+  const issue = (field: string, message: string, severity: FeedIssueSeverity = "error"): FeedIssue => ({
+    severity,
+    episode: null,
+    field,
+    message,
+  });
+
+  return [
+    !channel.title.trim() && issue("title", "The show needs a title."),
+    !channel.description.trim() && issue("description", "The show needs a description."),
+    !isHttpUrl(channel.link) && issue("link", "The show needs a website URL."),
+    !isHttpUrl(channel.imageUrl) && issue("imageUrl", "The show needs artwork (an image URL)."),
+    !channel.language.trim() && issue("language", "The show needs a language, e.g. en-us."),
+    !channel.category.trim() && issue("category", "The show needs an Apple Podcasts category."),
+    !channel.author.trim() && issue("author", "Apple Podcasts expects an author.", "warning"),
+    !/^[^@\s]+@[^@\s]+$/.test(channel.ownerEmail.trim()) &&
+      issue("ownerEmail", "Directories use the owner email to verify the feed.", "warning"),
+  ].filter((item): item is FeedIssue => !!item);
+}
+
+// Turn an approved, Completed episode into a feed item, or report why it can't be published
+export function toFeedItem(episode: Episode, now: Date = new Date()): { item: FeedItem | null; issues: FeedIssue[] } {
+  const issues: FeedIssue[] = [];
+  const issue = (field: string, message: string, severity: FeedIssueSeverity = "error") =>
+    issues.push({ severity, episode, field, message });
+
+  const title = getEpisodeTitle(episode);
+  const description = episode.episode_description?.trim() || "";
+  const audioUrl = episode.master_audio_file?.trim() || "";
+  const publishedAt = getPublishInstant(episode);
+
+  if (!title) issue("episode_titles", "Missing an episode title.");
+  if (!description) issue("episode_description", "Missing a description.");
+  if (!isHttpUrl(audioUrl)) {
+    issue("master_audio_file", "Missing the master audio file URL.");
+  } else {
+    issue("master_audio_file", "The enclosure length is written as 0 since the file size can't be read.", "warning");
+  }
+  if (!publishedAt) issue("publish_date", "Missing a publish date.");
+
+  if (publishedAt && publishedAt.getTime() > now.getTime()) {
+    issue("publish_date", "Publishes in the future; left out until then.");
+  }
+  if (!isHttpUrl(episode.episode_cover_art)) issue("episode_cover_art", "No cover art; the show artwork is used.", "warning");
+  if (episode.episode_number === null || episode.episode_number === undefined) {
+    issue("episode_number", "No episode number.", "warning");
+  }
+
+  if (issues.some((item) => item.severity === "error") || !title || !publishedAt) {
+    return { item: null, issues };
+  }
+
+  return {
+    item: {
+      episode,
+      guid: `mep-episode-${episode.id}`,
+      title,
+      description,
+      showNotes: episode.show_notes?.trim() || null,
+      audioUrl,
+      audioType: getAudioType(audioUrl),
+      imageUrl: isHttpUrl(episode.episode_cover_art) ? episode.episode_cover_art.trim() : null,
+      episodeNumber: episode.episode_number ?? null,
+      publishedAt,
+    },
+    issues,
+  };
+}
+
+const tag = (name: string, value: string | number | null | undefined, attributes = ""): string =>
+  value === null || value === undefined || value === "" ? "" : `<${name}${attributes}>${escapeXml(String(value))}</${name}>`;
+
+const renderItem = (item: FeedItem): string =>
+  [
+    "<item>",
+    tag("title", item.title),
+    tag("description", item.description),
+    tag("content:encoded", item.showNotes),
+    `<enclosure url="${escapeXml(item.audioUrl)}" length="0" type="${item.audioType}"/>`,
+    tag("guid", item.guid, ' isPermaLink="false"'),
+    tag("pubDate", item.publishedAt.toUTCString()),
+    tag("itunes:title", item.title),
+    tag("itunes:summary", item.description),
+    item.imageUrl && `<itunes:image href="${escapeXml(item.imageUrl)}"/>`,
+    tag("itunes:episode", item.episodeNumber),
+    tag("itunes:episodeType", "full"),
+    tag("podcast:episode", item.episodeNumber),
+    "</item>",
+  ]
+    .filter(Boolean)
+    .map((line) => (line === "<item>" || line === "</item>" ? `    ${line}` : `      ${line}`))
+    .join("\n");
+
+// RSS 2.0 document with iTunes and Podcasting 2.0 tags, newest episode first
+export function renderFeedXml(channel: FeedChannel, items: FeedItem[], now: Date = new Date()): string {
+  const channelTags = [
+    tag("title", channel.title),
+    tag("link", channel.link),
+    tag("description", channel.description),
+    tag("language", channel.language),
+    tag("lastBuildDate", now.toUTCString()),
+    tag("generator", "Marketing Execution Podcast"),
+    tag("itunes:author", channel.author),
+    tag("itunes:summary", channel.description),
+    channel.imageUrl && `<itunes:image href="${escapeXml(channel.imageUrl)}"/>`,
+    channel.category && `<itunes:category text="${escapeXml(channel.category)}"/>`,
+    tag("itunes:explicit", channel.explicit ? "true" : "false"),
+    tag("itunes:type", "episodic"),
+    (channel.ownerName || channel.ownerEmail) &&
+      `<itunes:owner>${tag("itunes:name", channel.ownerName)}${tag("itunes:email", channel.ownerEmail)}</itunes:owner>`,
+    channel.imageUrl &&
+      `<image>${tag("url", channel.imageUrl)}${tag("title", channel.title)}${tag("link", channel.link)}</image>`,
+    tag("podcast:locked", channel.ownerEmail ? "yes" : null, channel.ownerEmail ? ` owner="${escapeXml(channel.ownerEmail)}"` : ""),
+  ]
+    .filter(Boolean)
+    .map((line) => `    ${line}`);
+
+  const sorted = [...items].sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:podcast="https://podcastindex.org/namespace/1.0">',
+    "  <channel>",
+    ...channelTags,
+    ...sorted.map(renderItem),
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+// Episodes the feed is built from: every episode with approved scripts and a Completed podcast that is not in the trash
+export function isFeedCandidate(episode: Episode): boolean {
+  return (
+    episode.episode_interview_script_status === "Approved" &&
+    episode.podcast_status === "Completed" &&
+    !episode.deleted_at
+  );
+}
+
+// Fetch the feed candidates; isFeedCandidate applies the same rules to rows changed since
+export async function listFeedEpisodes(): Promise<Episode[]> {
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .eq("episode_interview_script_status", "Approved")
+    .eq("podcast_status", "Completed")
+    .is("deleted_at", null);
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Build the feed from the candidate episodes, with a report of what was left out and why
+export function buildPodcastFeed(episodes: Episode[], channel: FeedChannel, now: Date = new Date()): PodcastFeed {
+  const results = episodes.filter(isFeedCandidate).map((episode) => toFeedItem(episode, now));
+
+  const items = results.flatMap((result) => (result.item ? [result.item] : []));
+  const issues = [...validateChannel(channel), ...results.flatMap((result) => result.issues)];
+
+  return { xml: renderFeedXml(channel, items, now), items, issues };
+}
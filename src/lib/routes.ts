@@ -0,0 +1,34 @@
+// Pages of the app; anything else falls back to not_found
+export type Route =
+  | { name: "dashboard" }
+  | { name: "episode"; episodeId: string }
+  | { name: "calendar" }
+  | { name: "feed" }
+  | { name: "not_found" };
+
+const EPISODE_PATH = /^\/episodes\/([^/]+)\/?$/;
+
+// Work out the page from a URL path
+export function parseRoute(pathname: string): Route {
+  if (pathname === "/" || pathname === "") return { name: "dashboard" };
+  if (pathname === CALENDAR_PATH || pathname === `${CALENDAR_PATH}/`) return { name: "calendar" };
+  if (pathname === FEED_PATH || pathname === `${FEED_PATH}/`) return { name: "feed" };
+
+  const episodeMatch = pathname.match(EPISODE_PATH);
+  if (episodeMatch) return { name: "episode", episodeId: decodeURIComponent(episodeMatch[1]) };
+
+  return { name: "not_found" };
+}
+
+export const DASHBOARD_PATH = "/";
+export const CALENDAR_PATH = "/calendar";
+export const FEED_PATH = "/feed";
+
+export function getEpisodePath(episodeId: string): string {
+  return `/episodes/${encodeURIComponent(episodeId)}`;
+}
+
+// Absolute link to an episode, for sharing outside the app
+export function getEpisodeUrl(episodeId: string): string {
+  return `${window.location.origin}${getEpisodePath(episodeId)}`;
+}
@@ -0,0 +1,274 @@
+import { config } from "@/lib/config";
+import { supabase } from "@/lib/supabase";
+import { derivePipelineStage, getPublishInstant } from "@/lib/pipeline";
+import { formatEditorValue } from "@/lib/episode-columns";
+import { toDateInputValue } from "@/lib/episode-filters";
+import { EPISODES_TABLE, getEpisodeValue, updateEpisode, type Episode, type EpisodeUpdate } from "@/lib/episodes";
+import { getZonedParts, zonedTimeToInstant } from "@/lib/timezone";
+
+// Time of day used when an episode is scheduled without one
+export const DEFAULT_PUBLISH_TIME = "09:00";
+
+// We publish one episode a week; weeks in the calendar without one are flagged
+export const CADENCE_DAYS = 7;
+
+export type CalendarView = "month" | "week";
+
+// Columns that together say when an episode goes live; unix_timestamp is the canonical instant
+export const SCHEDULE_COLUMNS = ["scheduled_date", "publish_date", "publish_time", "unix_timestamp"] as const;
+
+export type ScheduleColumn = (typeof SCHEDULE_COLUMNS)[number];
+
+// Scheduling columns as editor values
+export type ScheduleFields = Record<ScheduleColumn, string>;
+
+const EMPTY_SCHEDULE_FIELDS: ScheduleFields = {
+  scheduled_date: "",
+  publish_date: "",
+  publish_time: "",
+  unix_timestamp: "",
+};
+
+export function isScheduleColumn(column: string): column is ScheduleColumn {
+  return (SCHEDULE_COLUMNS as readonly string[]).includes(column);
+}
+
+// An episode placed on the calendar
+export interface ScheduledEpisode {
+  episode: Episode;
+  instant: Date;
+  // Calendar day in the show's time zone as YYYY-MM-DD
+  day: string;
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const parseDay = (day: string): Date => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
+// Monday of the week a date falls in
+export function startOfWeek(date: Date): Date {
+  return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -((date.getDay() + 6) % 7));
+}
+
+// Days shown for a view: whole weeks covering the month, or the seven days of the week
+export function getCalendarDays(view: CalendarView, anchor: Date): Date[] {
+  if (view === "week") {
+    const monday = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+  }
+
+  const first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (let day = first; day <= last || days.length % 7 !== 0; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Move the anchor by one month or one week
+export function shiftAnchor(view: CalendarView, anchor: Date, steps: number): Date {
+  return view === "week"
+    ? addDays(anchor, steps * 7)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + steps, 1);
+}
+
+// Instants the shown days start and end at in the show's time zone; the end is exclusive
+export function getCalendarRange(days: Date[], timeZone: string = config.showTimeZone): { from: Date; to: Date } {
+  const first = days[0];
+  const end = addDays(days[days.length - 1], 1);
+
+  return {
+    from: zonedTimeToInstant(toDateInputValue(first), "00:00", timeZone) || first,
+    to: zonedTimeToInstant(toDateInputValue(end), "00:00", timeZone) || end,
+  };
+}
+
+// Check whether an episode that is not in the trash publishes in [from, to)
+export function isScheduledBetween(episode: Episode, from: Date, to: Date, timeZone: string = config.showTimeZone): boolean {
+  if (episode.deleted_at) return false;
+
+  const instant = getPublishInstant(episode, timeZone);
+  return !!instant && instant.getTime() >= from.getTime() && instant.getTime() < to.getTime();
+}
+
+// Fetch the episodes that may publish in [from, to); isScheduledBetween narrows them down. Rows without a
+// timestamp are matched by their date with two days to spare, since it is a calendar date in the show's time zone.
+export async function listEpisodesScheduledBetween(from: Date, to: Date): Promise<Episode[]> {
+  const fromSeconds = Math.floor(from.getTime() / 1000);
+  const toSeconds = Math.ceil(to.getTime() / 1000);
+  const fromDay = toDateInputValue(addDays(from, -2));
+  const toDay = toDateInputValue(addDays(to, 2));
+
+  // Timestamps may be stored in seconds or in milliseconds, like getPublishInstant accepts
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .is("deleted_at", null)
+    .or(
+      [
+        `and(unix_timestamp.gte.${fromSeconds},unix_timestamp.lt.${toSeconds})`,
+        `and(unix_timestamp.gte.${fromSeconds * 1000},unix_timestamp.lt.${toSeconds * 1000})`,
+        `and(unix_timestamp.is.null,publish_date.gte.${fromDay},publish_date.lte.${toDay})`,
+        `and(unix_timestamp.is.null,publish_date.is.null,scheduled_date.gte.${fromDay},scheduled_date.lte.${toDay})`,
+      ].join(",")
+    );
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Episodes with finished audio but no publish date yet, ready to be dropped on the calendar
+export function isReadyToSchedule(episode: Episode): boolean {
+  if (episode.deleted_at) return false;
+
+  try {
+    return derivePipelineStage(episode) === "audio" && !getPublishInstant(episode);
+  } catch {
+    return false;
+  }
+}
+
+// Fetch the episodes that may be ready to schedule; isReadyToSchedule narrows them down
+export async function listEpisodesReadyToSchedule(): Promise<Episode[]> {
+  const { data, error } = await supabase
+    .from(EPISODES_TABLE)
+    .select("*")
+    .is("deleted_at", null)
+    .eq("episode_interview_script_status", "Approved")
+    .is("unix_timestamp", null)
+    .is("publish_date", null)
+    .is("scheduled_date", null)
+    .or("podcast_status.eq.Completed,episode_text_files_status.eq.Completed");
+
+  if (error) throw new Error(error.message);
+
+  return (data || []) as Episode[];
+}
+
+// Episodes that have a publish instant, earliest first
+export function getScheduledEpisodes(episodes: Episode[], timeZone: string = config.showTimeZone): ScheduledEpisode[] {
+  return episodes
+    .map((episode) => ({ episode, instant: getPublishInstant(episode, timeZone) }))
+    .filter((item): item is { episode: Episode; instant: Date } => item.instant !== null)
+    .map((item) => ({ ...item, day: getZonedParts(item.instant, timeZone).date }))
+    .sort((a, b) => a.instant.getTime() - b.instant.getTime());
+}
+
+// Ids of episodes that share a publishing slot, the same publish instant, with another episode
+export function findScheduleConflicts(scheduled: ScheduledEpisode[]): Set<string> {
+  const bySlot = new Map<number, string[]>();
+  scheduled.forEach((item) => {
+    const slot = item.instant.getTime();
+    bySlot.set(slot, [...(bySlot.get(slot) || []), item.episode.id]);
+  });
+
+  return new Set([...bySlot.values()].filter((ids) => ids.length > 1).flat());
+}
+
+// Mondays of the shown weeks, from the current week on, that have no episode
+export function findCadenceGaps(scheduled: ScheduledEpisode[], days: Date[], now: Date = new Date()): string[] {
+  const thisWeek = toDateInputValue(startOfWeek(now));
+  const coveredWeeks = new Set(scheduled.map((item) => toDateInputValue(startOfWeek(parseDay(item.day)))));
+
+  return days
+    .filter((day) => day.getDay() === 1)
+    .map(toDateInputValue)
+    .filter((monday) => monday >= thisWeek && !coveredWeeks.has(monday));
+}
+
+// All four scheduling columns for one instant as editor values, with the date and time in the show's time zone
+export function getScheduleFields(instant: Date, timeZone: string = config.showTimeZone): ScheduleFields {
+  const { date, time } = getZonedParts(instant, timeZone);
+
+  return {
+    scheduled_date: date,
+    publish_date: date,
+    publish_time: time,
+    unix_timestamp: String(Math.floor(instant.getTime() / 1000)),
+  };
+}
+
+// All four scheduling columns for one instant, so they never disagree
+export function getScheduleChanges(instant: Date, timeZone: string = config.showTimeZone): EpisodeUpdate {
+  const fields = getScheduleFields(instant, timeZone);
+  return { ...fields, unix_timestamp: Number(fields.unix_timestamp) };
+}
+
+// Scheduling columns of an episode as shown in the editor, with any values already typed
+export function toScheduleFields(episode: Episode, edited: Record<string, string> = {}): ScheduleFields {
+  return Object.fromEntries(
+    SCHEDULE_COLUMNS.map((column) => [column, edited[column] ?? formatEditorValue(column, getEpisodeValue(episode, column))])
+  ) as ScheduleFields;
+}
+
+// Editor values after one scheduling column is changed, with the others worked out from the same instant
+export function deriveScheduleFields(
+  column: ScheduleColumn,
+  value: string,
+  current: ScheduleFields,
+  timeZone: string = config.showTimeZone
+): ScheduleFields {
+  const fields = { ...current, [column]: value };
+
+  // Clearing the date or timestamp unschedules the episode; a cleared time falls back to the default time of day
+  if (value.trim() === "" && column !== "publish_time") return EMPTY_SCHEDULE_FIELDS;
+
+  const instant =
+    column === "unix_timestamp"
+      ? /^\d+$/.test(value.trim())
+        ? getPublishInstant({ unix_timestamp: Number(value) }, timeZone)
+        : null
+      : zonedTimeToInstant(
+          column === "publish_time" ? fields.publish_date || fields.scheduled_date : value,
+          fields.publish_time || DEFAULT_PUBLISH_TIME,
+          timeZone
+        );
+
+  // Without a date to fall back on, a cleared time unschedules the episode too
+  if (!instant) return value.trim() === "" ? EMPTY_SCHEDULE_FIELDS : fields;
+  return getScheduleFields(instant, timeZone);
+}
+
+// Problems with each scheduling column that doesn't agree with the others, keyed by column
+export function findScheduleMismatches(
+  episode: Partial<Episode>,
+  timeZone: string = config.showTimeZone
+): Record<string, string> {
+  const values = Object.fromEntries(
+    SCHEDULE_COLUMNS.map((column) => [column, formatEditorValue(column, episode[column])])
+  ) as ScheduleFields;
+  if (SCHEDULE_COLUMNS.every((column) => values[column] === "")) return {};
+
+  if (values.unix_timestamp === "") {
+    return { unix_timestamp: "Must be set along with the publish date and time." };
+  }
+
+  const instant = getPublishInstant({ unix_timestamp: Number(values.unix_timestamp) }, timeZone);
+  if (!instant || isNaN(instant.getTime())) return { unix_timestamp: "Must be a valid timestamp." };
+
+  const expected = getScheduleFields(instant, timeZone);
+  const mismatches: Record<string, string> = {};
+  (["scheduled_date", "publish_date", "publish_time"] as const).forEach((column) => {
+    if (values[column] !== expected[column]) {
+      mismatches[column] = `Must be ${expected[column]} to match unix_timestamp (${timeZone}).`;
+    }
+  });
+  return mismatches;
+}
+
+// Move an episode to another day, keeping its time of day in the show's time zone
+export async function rescheduleEpisode(episode: Episode, day: Date, timeZone: string = config.showTimeZone): Promise<Episode> {
+  const current = getPublishInstant(episode, timeZone);
+  const time = current ? getZonedParts(current, timeZone).time : DEFAULT_PUBLISH_TIME;
+
+  const instant = zonedTimeToInstant(toDateInputValue(day), time, timeZone);
+  if (!instant) throw new Error(`Can't schedule on ${toDateInputValue(day)} at ${time}.`);
+
+  return updateEpisode(episode.id, getScheduleChanges(instant, timeZone), episode.version);
+}
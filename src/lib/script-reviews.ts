@@ -0,0 +1,144 @@
+import { supabase } from "@/lib/supabase";
+import { PermissionDeniedError, can, getCurrentUser } from "@/lib/auth";
+import { REVIEWABLE_SCRIPT_KEYS } from "@/lib/scripts";
+import type { Episode, ScriptLinkKey } from "@/lib/episodes";
+import type { ScriptStatus } from "@/lib/pipeline";
+
+// Name of the Supabase table holding per-script review decisions
+const SCRIPT_REVIEWS_TABLE = "script_reviews";
+
+export const SCRIPT_DECISIONS = ["approved", "changes_requested", "rejected"] as const;
+export type ScriptDecision = (typeof SCRIPT_DECISIONS)[number];
+
+export const SCRIPT_DECISION_LABELS: Record<ScriptDecision, string> = {
+  approved: "Approved",
+  changes_requested: "Changes Requested",
+  rejected: "Rejected",
+};
+
+// A single row of the script_reviews table
+export interface ScriptReview {
+  id: string;
+  created_at: string;
+  episode_id: string;
+  script_key: ScriptLinkKey;
+  decision: ScriptDecision;
+  comment: string | null;
+  script_url: string | null;
+  // SHA-256 of the script's text when it was reviewed, null when it couldn't be read
+  script_hash: string | null;
+  reviewer_id: string | null;
+  reviewer_email: string | null;
+}
+
+export type NewScriptReview = Omit<ScriptReview, "id" | "created_at" | "reviewer_id" | "reviewer_email">;
+
+// Raised when a rejection is submitted without saying why
+export class ReviewCommentRequiredError extends Error {
+  constructor() {
+    super("A comment is required when rejecting a script");
+    this.name = "ReviewCommentRequiredError";
+  }
+}
+
+// Fetch every review of an episode, newest first
+export async function listScriptReviews(episodeId: string): Promise<ScriptReview[]> {
+  const { data, error } = await supabase
+    .from(SCRIPT_REVIEWS_TABLE)
+    .select("*")
+    .eq("episode_id", episodeId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as ScriptReview[];
+}
+
+// Record a decision by the signed-in reviewer; rejections must carry a comment
+export async function createScriptReview(review: NewScriptReview): Promise<ScriptReview> {
+  if (review.decision === "rejected" && !review.comment?.trim()) {
+    throw new ReviewCommentRequiredError();
+  }
+
+  const user = getCurrentUser();
+  if (!can(user, "approve")) throw new PermissionDeniedError("approve");
+
+  const { data, error } = await supabase
+    .from(SCRIPT_REVIEWS_TABLE)
+    .insert({
+      ...review,
+      comment: review.comment?.trim() || null,
+      reviewer_id: user?.id || null,
+      reviewer_email: user?.email || null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as ScriptReview;
+}
+
+// Listen for new reviews of one episode; returns an unsubscribe function
+export function subscribeToScriptReviews(episodeId: string, onInsert: (review: ScriptReview) => void): () => void {
+  const channel = supabase
+    .channel(`script-reviews-${episodeId}`)
+    .on<ScriptReview>("postgres_changes", {
+      event: "INSERT",
+      schema: "public",
+      table: SCRIPT_REVIEWS_TABLE,
+      filter: `episode_id=eq.${episodeId}`,
+    }, (payload) => onInsert(payload.new))
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
+
+// Current decision for each reviewable script; a decision on an older version of a script no longer counts.
+// A script is a new version when its link changes, or when its text no longer matches the fingerprint taken
+// at review time (see loadScriptHashes); scripts whose text can't be read are compared by link only.
+export function getCurrentReviews(
+  reviews: ScriptReview[],
+  episode: Partial<Episode>,
+  scriptHashes: Partial<Record<ScriptLinkKey, string>> = {}
+): Partial<Record<ScriptLinkKey, ScriptReview>> {
+  const current: Partial<Record<ScriptLinkKey, ScriptReview>> = {};
+
+  REVIEWABLE_SCRIPT_KEYS.forEach((key) => {
+    const latest = reviews
+      .filter((review) => review.script_key === key)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+    if (!latest || latest.script_url !== (episode[key] ?? null)) return;
+
+    const hash = scriptHashes[key];
+    if (hash && latest.script_hash && latest.script_hash !== hash) return;
+
+    current[key] = latest;
+  });
+
+  return current;
+}
+
+// Aggregate status of the individual decisions
+export function deriveScriptStatus(
+  currentReviews: Partial<Record<ScriptLinkKey, Pick<ScriptReview, "decision">>>
+): ScriptStatus {
+  const decisions = REVIEWABLE_SCRIPT_KEYS.map((key) => currentReviews[key]?.decision);
+
+  if (decisions.includes("rejected")) return "Rejected";
+  if (decisions.includes("changes_requested")) return "Changes Requested";
+  if (decisions.every((decision) => decision === "approved")) return "Approved";
+  return "Pending";
+}
+
+// episode_interview_script_status to store for the decisions. Only the confirmed approval in the form sets Approved,
+// since that starts the text files and audio, so every script approved keeps the row Pending until then.
+export function getStoredScriptStatus(
+  currentStatus: string | null,
+  currentReviews: Partial<Record<ScriptLinkKey, Pick<ScriptReview, "decision">>>
+): ScriptStatus {
+  const status = deriveScriptStatus(currentReviews);
+  if (status !== "Approved") return status;
+  return currentStatus === "Approved" ? "Approved" : "Pending";
+}
@@ -0,0 +1,117 @@
+import { config } from "@/lib/config";
+import { supabase } from "@/lib/supabase";
+import type { Episode, ScriptLinkKey } from "@/lib/episodes";
+
+// The four interview scripts a reviewer has to read before approving
+export const REVIEWABLE_SCRIPT_KEYS: readonly ScriptLinkKey[] = [
+  "episode_interview_script_1",
+  "episode_interview_script_2",
+  "episode_interview_script_3",
+  "episode_interview_script_4",
+];
+
+// Raised when a script can't be loaded from or saved back to where it is stored
+export class ScriptStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptStorageError";
+  }
+}
+
+export interface ScriptContent {
+  text: string;
+  // Only plain-text scripts in Supabase Storage can be written back
+  editable: boolean;
+}
+
+interface StorageLocation {
+  bucket: string;
+  path: string;
+}
+
+// Recognise links into this project's Supabase Storage, e.g. .../storage/v1/object/public/scripts/ep-12/script-1.txt
+const parseStorageUrl = (url: string): StorageLocation | null => {
+  const prefix = `${config.supabaseUrl.replace(/\/$/, "")}/storage/v1/object/`;
+  if (!url.startsWith(prefix)) return null;
+
+  const [, bucket, ...rest] = url.slice(prefix.length).split("?")[0].split("/");
+  if (!bucket || rest.length === 0) return null;
+
+  return { bucket, path: decodeURIComponent(rest.join("/")) };
+};
+
+// Google Docs links are read through their plain-text export
+const toGoogleDocsExportUrl = (url: string): string | null => {
+  const match = url.match(/docs\.google\.com\/document\/d\/([^/]+)/);
+  return match ? `https://docs.google.com/document/d/${match[1]}/export?format=txt` : null;
+};
+
+const isPlainText = (type: string, path: string) =>
+  type.startsWith("text/") || /\.(txt|md|markdown)$/i.test(path);
+
+// Load the text of a script from its link
+export async function loadScriptContent(url: string): Promise<ScriptContent> {
+  const location = parseStorageUrl(url);
+
+  if (location) {
+    const { data, error } = await supabase.storage.from(location.bucket).download(location.path);
+    if (error) throw new ScriptStorageError(error.message);
+
+    return { text: await data.text(), editable: isPlainText(data.type, location.path) };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(toGoogleDocsExportUrl(url) || url);
+  } catch (err) {
+    console.error("Error loading script:", err);
+    throw new ScriptStorageError("This script can't be read from the browser. Open it in a new tab instead.");
+  }
+
+  if (!response.ok) {
+    throw new ScriptStorageError(`The script responded with status ${response.status}.`);
+  }
+
+  return { text: await response.text(), editable: false };
+}
+
+// Fingerprint of a script's text, so a review can tell when a script changed without its link changing
+export async function hashScriptContent(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Fingerprint of the script behind a link, or null when it can't be read from the browser
+export async function loadScriptHash(url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+
+  try {
+    const content = await loadScriptContent(url);
+    return await hashScriptContent(content.text);
+  } catch (err) {
+    console.error("Error fingerprinting script:", err);
+    return null;
+  }
+}
+
+// Fingerprints of an episode's reviewable scripts; scripts that can't be read are left out
+export async function loadScriptHashes(episode: Partial<Episode>): Promise<Partial<Record<ScriptLinkKey, string>>> {
+  const hashes = await Promise.all(REVIEWABLE_SCRIPT_KEYS.map((key) => loadScriptHash(episode[key])));
+  return Object.fromEntries(
+    REVIEWABLE_SCRIPT_KEYS.flatMap((key, index) => (hashes[index] ? [[key, hashes[index]]] : []))
+  );
+}
+
+// Write an edited script back to Supabase Storage
+export async function saveScriptContent(url: string, text: string): Promise<void> {
+  const location = parseStorageUrl(url);
+  if (!location) {
+    throw new ScriptStorageError("Only scripts stored in Supabase can be edited in the app.");
+  }
+
+  const { error } = await supabase.storage
+    .from(location.bucket)
+    .upload(location.path, new Blob([text], { type: "text/plain" }), { upsert: true });
+
+  if (error) throw new ScriptStorageError(error.message);
+}
@@ -0,0 +1,213 @@
+// Formats the generator accepts, and the file picker filter that matches them
+export const SOURCE_KINDS = ["pdf", "docx", "markdown", "text", "url"] as const;
+export type SourceKind = (typeof SOURCE_KINDS)[number];
+
+export const SOURCE_FILE_ACCEPT = ".pdf,.docx,.md,.markdown,.txt";
+
+export const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  pdf: "PDF",
+  docx: "Word document",
+  markdown: "Markdown",
+  text: "Plain text",
+  url: "Web article",
+};
+
+// An uploaded or fetched source, normalized for the generation webhook
+export interface SourceDocument {
+  kind: SourceKind;
+  // File name, or host and path for web articles
+  fileName: string;
+  // The uploaded file - PDFs are sent to the webhook as-is
+  file: File | null;
+  // Address of a web article
+  url: string | null;
+  // Extracted plain text - null for PDFs, which the workflow reads itself
+  text: string | null;
+}
+
+// Raised when a source can't be read or has no usable text
+export class SourceExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourceExtractionError";
+  }
+}
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Work out the kind from the MIME type, falling back to the extension since browsers often leave .md untyped
+export function getSourceKind(file: File): SourceKind | null {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (file.type === "application/pdf" || extension === "pdf") return "pdf";
+  if (file.type === DOCX_MIME_TYPE || extension === "docx") return "docx";
+  if (file.type === "text/markdown" || extension === "md" || extension === "markdown") return "markdown";
+  if (file.type === "text/plain" || extension === "txt") return "text";
+
+  return null;
+}
+
+// Collapse runs of blank lines and trailing spaces
+const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// Keep the words of a Markdown document and drop its syntax
+const markdownToText = (markdown: string): string =>
+  markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "- ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(\*|_)(.+?)\1/g, "$2")
+    .replace(/^-{3,}$/gm, "");
+
+// Find a file inside a ZIP archive through its central directory and return its bytes
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 64 KB of the archive
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65558); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset === -1) return null;
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return null;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+      // 0 = stored, 8 = deflate
+      if (method === 0) return data;
+      if (method !== 8) return null;
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+};
+
+// Pull the paragraphs out of word/document.xml
+const docxToText = async (file: File): Promise<string> => {
+  const documentXml = await readZipEntry(await file.arrayBuffer(), "word/document.xml");
+  if (!documentXml) {
+    throw new SourceExtractionError(`"${file.name}" is not a readable Word document.`);
+  }
+
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), "application/xml");
+  const paragraphs = Array.from(xml.getElementsByTagName("w:p")).map((paragraph) =>
+    Array.from(paragraph.getElementsByTagName("w:t"))
+      .map((run) => run.textContent || "")
+      .join("")
+  );
+
+  return paragraphs.join("\n");
+};
+
+// Read the main content of an HTML page, skipping navigation and scripts
+const htmlToText = (html: string): string => {
+  const page = new DOMParser().parseFromString(html, "text/html");
+  page.querySelectorAll("script, style, noscript, nav, header, footer, aside, form").forEach((node) => node.remove());
+
+  const content = page.querySelector("article") || page.querySelector("main") || page.body;
+  const blocks = Array.from(content.querySelectorAll("h1, h2, h3, h4, p, li, blockquote"))
+    .map((block) => block.textContent?.trim() || "")
+    .filter(Boolean);
+
+  return blocks.length > 0 ? blocks.join("\n\n") : content.textContent || "";
+};
+
+const requireText = (text: string, label: string): string => {
+  const normalized = normalizeText(text);
+  if (!normalized) {
+    throw new SourceExtractionError(`No text could be extracted from ${label}.`);
+  }
+  return normalized;
+};
+
+// Read an uploaded file into a source document
+export async function extractFileSource(file: File): Promise<SourceDocument> {
+  const kind = getSourceKind(file);
+
+  if (!kind || file.size === 0) {
+    throw new SourceExtractionError("Please upload a PDF, DOCX, Markdown or text file.");
+  }
+
+  switch (kind) {
+    case "pdf":
+      return { kind, fileName: file.name, file, url: null, text: null };
+
+    case "docx":
+      return { kind, fileName: file.name, file, url: null, text: requireText(await docxToText(file), `"${file.name}"`) };
+
+    case "markdown":
+      return { kind, fileName: file.name, file, url: null, text: requireText(markdownToText(await file.text()), `"${file.name}"`) };
+
+    default:
+      return { kind: "text", fileName: file.name, file, url: null, text: requireText(await file.text(), `"${file.name}"`) };
+  }
+}
+
+// Fetch a web article into a source document - only works for sites that allow cross-origin requests
+export async function extractUrlSource(url: string): Promise<SourceDocument> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    console.error("Error fetching source URL:", err);
+    throw new SourceExtractionError("This site can't be read from the browser. Save the article as a text file instead.");
+  }
+
+  if (!response.ok) {
+    throw new SourceExtractionError(`The page responded with status ${response.status}.`);
+  }
+
+  const body = await response.text();
+  const isHtml = (response.headers.get("content-type") || "").includes("html");
+
+  const { hostname, pathname } = new URL(url);
+
+  return {
+    kind: "url",
+    fileName: `${hostname}${pathname}`,
+    file: null,
+    url,
+    text: requireText(isHtml ? htmlToText(body) : body, "this page"),
+  };
+}
+
+// What gets stored in source_document: the URL for web articles, the extracted text otherwise
+export function getSourceDocumentValue(source: SourceDocument): string | null {
+  return source.url ?? source.text;
+}
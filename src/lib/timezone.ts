@@ -0,0 +1,86 @@
+// Wall-clock date (YYYY-MM-DD) and time (HH:MM) of an instant in a time zone
+export interface ZonedParts {
+  date: string;
+  time: string;
+}
+
+// Whether the browser knows an IANA time zone name such as "America/New_York"
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Time zone of the person using the app
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const readParts = (instant: Date, timeZone: string): Record<string, number> => {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  });
+
+  return Object.fromEntries(
+    formatter
+      .formatToParts(instant)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+};
+
+// Milliseconds the time zone is ahead of UTC at an instant
+const getOffset = (instant: Date, timeZone: string): number => {
+  const parts = readParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = readParts(instant, timeZone);
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
+
+// The instant a wall-clock date and time happen in a time zone, or null if either is malformed
+export function zonedTimeToInstant(date: string, time: string, timeZone: string): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{2}):(\d{2})/.exec(time);
+  if (!dateMatch || !timeMatch) return null;
+
+  const [, year, month, day] = dateMatch.map(Number);
+  const [, hours, minutes] = timeMatch.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  if (isNaN(wallClock)) return null;
+
+  // Correct twice, since the offset can differ on either side of a daylight saving change
+  const firstGuess = wallClock - getOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffset(new Date(firstGuess), timeZone));
+}
+
+// Date and time in a time zone, ending with the zone's abbreviation
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  return instant.toLocaleString([], {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
@@ -0,0 +1,149 @@
+import type { AudioKey } from "@/lib/audio-comments";
+import type { Episode } from "@/lib/episodes";
+
+// One line of a transcript and when it is spoken, in seconds from the start of the audio
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type CaptionFormat = "vtt" | "srt";
+
+export const CAPTION_MIME_TYPES: Record<CaptionFormat, string> = {
+  vtt: "text/vtt;charset=utf-8",
+  srt: "application/x-subrip;charset=utf-8",
+};
+
+// Saved captions of the master audio, or "" when none were saved or they were aligned to a different file
+export function getSavedCaptions(episode: Episode): string {
+  const audioUrl = episode.master_audio_file?.trim();
+  return audioUrl && episode.master_audio_captions_audio_url === audioUrl ? episode.master_audio_captions?.trim() || "" : "";
+}
+
+// Whether an audio file has a transcript to follow: the full script for the master, the intro transcript for the intro
+export function hasTranscript(episode: Episode, audioKey: AudioKey): boolean {
+  return audioKey === "master_audio_file"
+    ? !!(getSavedCaptions(episode) || episode.episode_interview_full_script)
+    : !!episode.episode_intro_transcript?.trim();
+}
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// Break a transcript into sentences, keeping paragraph breaks as boundaries
+export function splitTranscript(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((paragraph) => paragraph.split(/(?<=[.!?…])\s+(?=\S)/))
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+}
+
+// Spread the lines over the audio in proportion to their length, as an estimate until lines are synced by hand
+export function estimateCues(lines: string[], duration: number): TranscriptCue[] {
+  const weights = lines.map((line) => Math.max(1, countWords(line)));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let elapsed = 0;
+  return lines.map((text, index) => {
+    const start = total > 0 ? (elapsed / total) * duration : 0;
+    elapsed += weights[index];
+    return { start, end: total > 0 ? (elapsed / total) * duration : 0, text };
+  });
+}
+
+// Index of the cue being spoken at a time, or -1 before the first and after the last
+export function findCueIndex(cues: TranscriptCue[], seconds: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (seconds < cues[middle].start) {
+      high = middle - 1;
+    } else if (seconds >= cues[middle].end) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+  return -1;
+}
+
+// Map the starts of cues[from..to) linearly from [oldStart, oldEnd] onto [newStart, newEnd]
+const rescale = (cues: TranscriptCue[], from: number, to: number, oldStart: number, oldEnd: number, newStart: number, newEnd: number) => {
+  const scale = oldEnd > oldStart ? (newEnd - newStart) / (oldEnd - oldStart) : 0;
+  for (let index = from; index < to; index++) {
+    cues[index] = { ...cues[index], start: newStart + (cues[index].start - oldStart) * scale };
+  }
+};
+
+// Start a cue at a new time; the cues between it and the nearest synced cues on either side stretch to fit
+export function retimeCue(
+  cues: TranscriptCue[],
+  index: number,
+  seconds: number,
+  syncedIndexes: number[],
+  duration: number
+): TranscriptCue[] {
+  const previous = Math.max(-1, ...syncedIndexes.filter((synced) => synced < index));
+  const next = Math.min(cues.length, ...syncedIndexes.filter((synced) => synced > index));
+
+  const lowerStart = previous >= 0 ? cues[previous].start : 0;
+  const upperStart = next < cues.length ? cues[next].start : duration;
+  const target = Math.min(Math.max(seconds, lowerStart), upperStart);
+
+  const retimed = [...cues];
+  const oldStart = cues[index].start;
+  rescale(retimed, previous + 1, index, lowerStart, oldStart, lowerStart, target);
+  rescale(retimed, index, next, oldStart, upperStart, target, upperStart);
+
+  // Each cue ends where the next one starts
+  return retimed.map((cue, position) => ({
+    ...cue,
+    end: position + 1 < retimed.length ? retimed[position + 1].start : Math.max(cue.start, duration),
+  }));
+}
+
+const formatCueTime = (seconds: number, separator: "." | ","): string => {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const rest = Math.floor((milliseconds % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(rest)}${separator}${pad(milliseconds % 1000, 3)}`;
+};
+
+export function toWebVtt(cues: TranscriptCue[]): string {
+  const blocks = cues.map((cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.text}`);
+  return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+}
+
+export function toSrt(cues: TranscriptCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.text}`)
+    .join("\n\n")
+    .concat("\n");
+}
+
+const parseCueTime = (value: string): number => {
+  const parts = value.trim().replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Read back captions saved by toWebVtt; cue settings and notes are ignored
+export function parseWebVtt(vtt: string): TranscriptCue[] {
+  return vtt
+    .replace(/\r/g, "")
+    .split(/\n{2,}/)
+    .flatMap((block) => {
+      const lines = block.split("\n");
+      const timingIndex = lines.findIndex((line) => line.includes("-->"));
+      if (timingIndex === -1) return [];
+
+      const [start, end] = lines[timingIndex].split("-->").map((part) => part.trim().split(/\s+/)[0]);
+      const text = lines.slice(timingIndex + 1).join(" ").trim();
+      const cue = { start: parseCueTime(start), end: parseCueTime(end), text };
+      return text && !isNaN(cue.start) && !isNaN(cue.end) ? [cue] : [];
+    });
+}
@@ -0,0 +1,64 @@
+// Number of bars drawn for a waveform
+export const WAVEFORM_BARS = 160;
+
+// Decoding at the lowest rate browsers allow keeps an hour of audio to a few megabytes of samples
+const DECODE_SAMPLE_RATE = 3000;
+
+// Raised when the audio can't be fetched or decoded, e.g. the host doesn't allow cross-origin reads
+export class WaveformUnavailableError extends Error {
+  constructor(public url: string, reason: string) {
+    super(`Couldn't draw the waveform: ${reason}`);
+    this.name = "WaveformUnavailableError";
+  }
+}
+
+// Loaded waveforms by audio URL, so switching between files doesn't download them again
+const cache = new Map<string, Promise<number[]>>();
+
+// Loudest sample of each slice of the audio, scaled so the loudest slice is 1
+export function computePeaks(samples: Float32Array, bars: number = WAVEFORM_BARS): number[] {
+  const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks = Array.from({ length: bars }, (_, bar) => {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * sliceSize);
+    for (let index = bar * sliceSize; index < end; index++) {
+      peak = Math.max(peak, Math.abs(samples[index]));
+    }
+    return peak;
+  });
+
+  const loudest = Math.max(...peaks, 0);
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
+
+const decodePeaks = async (url: string, bars: number): Promise<number[]> => {
+  let data: ArrayBuffer;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`the server answered ${response.status}`);
+    data = await response.arrayBuffer();
+  } catch (err) {
+    throw new WaveformUnavailableError(url, err instanceof Error ? err.message : "the file couldn't be downloaded");
+  }
+
+  try {
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+    return computePeaks(buffer.getChannelData(0), bars);
+  } catch {
+    throw new WaveformUnavailableError(url, "the file isn't audio the browser can decode");
+  }
+};
+
+// Waveform of an audio file as bar heights between 0 and 1
+export function loadWaveform(url: string, bars: number = WAVEFORM_BARS): Promise<number[]> {
+  const key = `${bars}:${url}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const peaks = decodePeaks(url, bars);
+  cache.set(key, peaks);
+  // Let a failed load be retried later
+  peaks.catch(() => cache.delete(key));
+  return peaks;
+}
@@ -1,10 +1,33 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
-import App from './App.tsx'
+import { AppLoadError } from './components/app-load-error.tsx'
+import { ConfigError } from './components/config-error.tsx'
+import { configErrors } from './lib/config.ts'
 import './index.css'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root')!)
+
+// Validate the configuration before anything creates a Supabase client from it
+if (configErrors.length > 0) {
+  console.error('Invalid configuration:', configErrors)
+  root.render(
+    <StrictMode>
+      <ConfigError errors={configErrors} />
+    </StrictMode>,
+  )
+} else {
+  import('./App.tsx').then(({ default: App }) => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  }).catch((err) => {
+    console.error('Error loading the app:', err)
+    root.render(
+      <StrictMode>
+        <AppLoadError />
+      </StrictMode>,
+    )
+  })
+}
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_PROFILE?: string;
+  readonly VITE_GENERATION_WEBHOOK_URL?: string;
+  readonly VITE_REGENERATION_WEBHOOK_URL?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_MAX_WAIT_TIME_MS?: string;
+  readonly VITE_POLL_MAX_DELAY_MS?: string;
+  readonly VITE_ENABLE_SETTINGS?: string;
+  readonly VITE_AUTH_MODE?: string;
+  readonly VITE_SHOW_TIME_ZONE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,26 @@
+-- Development only: lets VITE_AUTH_MODE=local work against a project with the migrations applied.
+-- Local mode sends the anon key, so the database sees every request as anonymous; this grants the anon role
+-- what signed-in users may do and treats it as an admin, leaving the role checks to the app.
+-- Never apply this to a project whose anon key is published, such as staging or production.
+create or replace function app_role() returns text
+  language sql stable
+  as $$
+    select case
+      when auth.jwt() ->> 'role' = 'anon' then 'admin'
+      else coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'producer')
+    end
+  $$;
+
+create policy "Local mode can read episodes" on autoworkflow for select to anon using (true);
+create policy "Local mode can edit episodes" on autoworkflow for update to anon using (true);
+create policy "Local mode can delete episodes" on autoworkflow for delete to anon using (true);
+create policy "Local mode can undelete episodes" on autoworkflow for insert to anon with check (true);
+
+create policy "Local mode can read reviews" on script_reviews for select to anon using (true);
+create policy "Local mode can review" on script_reviews for insert to anon with check (true);
+
+create policy "Local mode can read history" on episode_history for select to anon using (true);
+
+create policy "Local mode can read audio comments" on audio_comments for select to anon using (true);
+create policy "Local mode can comment on audio" on audio_comments for insert to anon with check (true);
+create policy "Local mode can remove audio comments" on audio_comments for delete to anon using (true);
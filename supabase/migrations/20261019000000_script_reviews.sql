@@ -0,0 +1,16 @@
+-- Per-script review decisions; the newest row per (episode_id, script_key) is the current decision
+create table if not exists script_reviews (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  episode_id text not null,
+  script_key text not null,
+  decision text not null check (decision in ('approved', 'changes_requested', 'rejected')),
+  comment text,
+  -- Link of the script version that was reviewed, so a regenerated script starts unreviewed
+  script_url text,
+  check (decision <> 'rejected' or coalesce(trim(comment), '') <> '')
+);
+
+create index if not exists script_reviews_episode_id_idx on script_reviews (episode_id, created_at desc);
+
+alter publication supabase_realtime add table script_reviews;
@@ -0,0 +1,33 @@
+-- Record who approved and who last changed each episode
+alter table autoworkflow
+  add column if not exists approved_by text,
+  add column if not exists approved_at timestamptz,
+  add column if not exists updated_by text;
+
+alter table script_reviews
+  add column if not exists reviewer_id text,
+  add column if not exists reviewer_email text;
+
+-- Roles live in app_metadata.role (producer, reviewer or admin) and are set with the service key
+create or replace function app_role() returns text
+  language sql stable
+  as $$ select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'producer') $$;
+
+alter table autoworkflow enable row level security;
+
+create policy "Signed-in users can read episodes" on autoworkflow
+  for select to authenticated using (true);
+
+create policy "Signed-in users can edit episodes" on autoworkflow
+  for update to authenticated using (true);
+
+create policy "Only admins can delete episodes" on autoworkflow
+  for delete to authenticated using (app_role() = 'admin');
+
+alter table script_reviews enable row level security;
+
+create policy "Signed-in users can read reviews" on script_reviews
+  for select to authenticated using (true);
+
+create policy "Only reviewers and admins can review" on script_reviews
+  for insert to authenticated with check (app_role() in ('reviewer', 'admin'));
@@ -0,0 +1,104 @@
+-- Append-only history of every change to an episode row, written by a trigger so n8n writes are recorded too
+create table if not exists episode_history (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  episode_id text not null,
+  action text not null check (action in ('create', 'update', 'approve', 'delete', 'undelete')),
+  -- Changed column for updates and approvals; null when the whole row was created, deleted or undeleted
+  field text,
+  -- Previous and new value of the field, or the whole row for creates, deletes and undeletes
+  old_value jsonb,
+  new_value jsonb,
+  actor text not null
+);
+
+create index if not exists episode_history_episode_id_idx on episode_history (episode_id, created_at desc);
+create index if not exists episode_history_deletes_idx on episode_history (created_at desc) where action = 'delete';
+
+-- The actor is the signed-in user from the JWT, never a value the client sent; service-key writes such as n8n
+-- are "system" and requests made with the anon key are "anonymous".
+-- Columns the later migrations add (deleted_at, version, updated_at) are read from the row's JSON so this is
+-- the only definition of the function.
+create or replace function record_episode_history() returns trigger
+  language plpgsql security definer
+  as $$
+declare
+  actor text;
+  old_row jsonb;
+  new_row jsonb;
+  column_name text;
+begin
+  actor := coalesce(
+    auth.jwt() ->> 'email',
+    case when auth.jwt() ->> 'role' = 'anon' then 'anonymous' end,
+    'system'
+  );
+
+  if tg_op = 'INSERT' then
+    insert into episode_history (episode_id, action, new_value, actor)
+    values (
+      new.id::text,
+      case when exists (select 1 from episode_history where episode_id = new.id::text and action = 'delete')
+        then 'undelete' else 'create' end,
+      to_jsonb(new),
+      actor
+    );
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into episode_history (episode_id, action, old_value, actor)
+    values (old.id::text, 'delete', to_jsonb(old), actor);
+    return old;
+  end if;
+
+  old_row := to_jsonb(old);
+  new_row := to_jsonb(new);
+
+  -- Trashing and restoring are single entries rather than changes to deleted_at and deleted_by
+  if old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then
+    insert into episode_history (episode_id, action, actor) values (new.id::text, 'trash', actor);
+    return new;
+  end if;
+
+  if old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then
+    insert into episode_history (episode_id, action, actor) values (new.id::text, 'untrash', actor);
+    return new;
+  end if;
+
+  -- Bookkeeping columns are left out of the field history
+  for column_name in select jsonb_object_keys(new_row) loop
+    if column_name not in ('updated_by', 'version', 'updated_at')
+      and old_row -> column_name is distinct from new_row -> column_name then
+      insert into episode_history (episode_id, action, field, old_value, new_value, actor)
+      values (
+        new.id::text,
+        case when column_name = 'episode_interview_script_status' and new_row ->> column_name = 'Approved'
+          then 'approve' else 'update' end,
+        column_name,
+        old_row -> column_name,
+        new_row -> column_name,
+        actor
+      );
+    end if;
+  end loop;
+
+  return new;
+end $$;
+
+drop trigger if exists autoworkflow_history on autoworkflow;
+create trigger autoworkflow_history
+  after insert or update or delete on autoworkflow
+  for each row execute function record_episode_history();
+
+-- Readable by every signed-in user; rows are only ever added by the trigger
+alter table episode_history enable row level security;
+
+create policy "Signed-in users can read history" on episode_history
+  for select to authenticated using (true);
+
+revoke insert, update, delete on episode_history from anon, authenticated;
+
+-- Undeleting re-inserts the row from its history snapshot
+create policy "Only admins can undelete episodes" on autoworkflow
+  for insert to authenticated with check (app_role() = 'admin');
@@ -0,0 +1,49 @@
+-- Deleting an episode moves it to the trash; it is purged for good once the retention window has passed
+alter table autoworkflow
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists autoworkflow_deleted_at_idx on autoworkflow (deleted_at) where deleted_at is not null;
+
+-- Record moving to and from the trash as their own history actions (see record_episode_history)
+alter table episode_history drop constraint if exists episode_history_action_check;
+alter table episode_history add constraint episode_history_action_check
+  check (action in ('create', 'update', 'approve', 'trash', 'untrash', 'delete', 'undelete'));
+
+-- Only admins move episodes to and from the trash; purging is the existing admin-only delete policy
+create or replace function autoworkflow_guard_trash() returns trigger
+  language plpgsql
+  as $$
+begin
+  if old.deleted_at is distinct from new.deleted_at
+    and auth.jwt() ->> 'role' = 'authenticated'
+    and app_role() <> 'admin' then
+    raise exception 'Only admins can move episodes to and from the trash';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists autoworkflow_guard_trash on autoworkflow;
+create trigger autoworkflow_guard_trash
+  before update on autoworkflow
+  for each row execute function autoworkflow_guard_trash();
+
+-- Permanently remove episodes that have been in the trash for longer than the retention window;
+-- the default must match TRASH_RETENTION_DAYS in src/lib/episodes.ts
+create or replace function purge_trashed_episodes(retention_days integer default 30) returns integer
+  language sql security definer
+  as $$
+  with purged as (
+    delete from autoworkflow
+    where deleted_at is not null and deleted_at < now() - make_interval(days => retention_days)
+    returning 1
+  )
+  select count(*)::integer from purged
+$$;
+
+revoke execute on function purge_trashed_episodes(integer) from public, anon, authenticated;
+
+-- Run the purge nightly with the default retention
+create extension if not exists pg_cron with schema extensions;
+
+select cron.schedule('purge-trashed-episodes', '15 3 * * *', 'select purge_trashed_episodes()');
@@ -0,0 +1,18 @@
+-- Every write bumps the row's version, so an editor can tell when the row changed underneath them
+alter table autoworkflow
+  add column if not exists version integer not null default 1,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function autoworkflow_bump_version() returns trigger
+  language plpgsql
+  as $$
+begin
+  new.version := old.version + 1;
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists autoworkflow_bump_version on autoworkflow;
+create trigger autoworkflow_bump_version
+  before update on autoworkflow
+  for each row execute function autoworkflow_bump_version();
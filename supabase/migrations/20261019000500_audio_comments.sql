@@ -0,0 +1,28 @@
+-- Review comments pinned to a position in an episode's generated audio
+create table if not exists audio_comments (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  episode_id text not null,
+  audio_key text not null check (audio_key in ('master_audio_file', 'episode_intro_audio_file')),
+  -- Link of the audio version that was reviewed, so regenerated audio starts without comments
+  audio_url text,
+  position_seconds numeric not null check (position_seconds >= 0),
+  comment text not null check (trim(comment) <> ''),
+  author_id text,
+  author_email text
+);
+
+create index if not exists audio_comments_episode_id_idx on audio_comments (episode_id, position_seconds);
+
+alter publication supabase_realtime add table audio_comments;
+
+alter table audio_comments enable row level security;
+
+create policy "Signed-in users can read audio comments" on audio_comments
+  for select to authenticated using (true);
+
+create policy "Signed-in users can comment on audio" on audio_comments
+  for insert to authenticated with check (author_id = auth.uid()::text);
+
+create policy "Authors and admins can remove audio comments" on audio_comments
+  for delete to authenticated using (author_id = auth.uid()::text or app_role() = 'admin');
@@ -0,0 +1,5 @@
+-- WebVTT captions aligning the full interview script with the master audio, saved from the transcript view,
+-- and the master_audio_file they were aligned to so captions for replaced audio are ignored
+alter table autoworkflow
+  add column if not exists master_audio_captions text,
+  add column if not exists master_audio_captions_audio_url text;
@@ -0,0 +1,2 @@
+-- Fingerprint of the reviewed script's text, so a script regenerated or edited under the same link starts unreviewed
+alter table script_reviews add column if not exists script_hash text;
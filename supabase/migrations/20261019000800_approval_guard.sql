@@ -0,0 +1,42 @@
+-- Only reviewers and admins may approve scripts, whatever client makes the write; the approval is attributed
+-- to the signed-in user rather than to whatever approved_by the client sent. Service-key writes (n8n) are trusted.
+create or replace function guard_episode_approval() returns trigger
+  language plpgsql
+  as $$
+begin
+  if coalesce(auth.jwt() ->> 'role', '') = 'service_role' then
+    return new;
+  end if;
+
+  -- Admins undelete purged episodes from their history snapshot, attribution included
+  if tg_op = 'INSERT' and app_role() = 'admin' then
+    return new;
+  end if;
+
+  if new.episode_interview_script_status = 'Approved'
+    and (tg_op = 'INSERT' or old.episode_interview_script_status is distinct from 'Approved') then
+    if app_role() not in ('reviewer', 'admin') then
+      raise exception 'Only reviewers and admins can approve scripts' using errcode = '42501';
+    end if;
+
+    new.approved_by := auth.jwt() ->> 'email';
+    new.approved_at := now();
+    return new;
+  end if;
+
+  -- Outside of an approval the attribution can't be changed by hand
+  if tg_op = 'INSERT' then
+    new.approved_by := null;
+    new.approved_at := null;
+  else
+    new.approved_by := old.approved_by;
+    new.approved_at := old.approved_at;
+  end if;
+
+  return new;
+end $$;
+
+drop trigger if exists autoworkflow_approval_guard on autoworkflow;
+create trigger autoworkflow_approval_guard
+  before insert or update on autoworkflow
+  for each row execute function guard_episode_approval();
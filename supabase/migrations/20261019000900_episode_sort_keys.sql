@@ -0,0 +1,49 @@
+-- The episodes list is sorted by the database and changed rows are put in place by the browser, so text columns
+-- are ordered by a key both sides compute the same way: the lowercased text, then the text as written to break
+-- ties between spellings that differ only in case, compared byte by byte. Each key is a computed field,
+-- <column>_sort_key, that the app orders by; keep the list in step with hasSortKey in src/lib/episode-sort.ts.
+do $$
+declare
+  column_name text;
+begin
+  foreach column_name in array array[
+    'episode_interview_file_name',
+    'episode_interview_file',
+    'source_document_file_name',
+    'source_document',
+    'episode_interview_full_script',
+    'episode_interview_script_1',
+    'episode_interview_script_2',
+    'episode_interview_script_3',
+    'episode_interview_script_4',
+    'episode_interview_script_status',
+    'episode_text_files_status',
+    'podcast_status',
+    'episode_titles',
+    'episode_description',
+    'episode_intro_transcript',
+    'linkedin_post_copy',
+    'x_post_copy',
+    'podcast_excerpt',
+    'show_notes',
+    'episode_intro_audio_file',
+    'master_audio_file',
+    'master_audio_captions',
+    'master_audio_captions_audio_url',
+    'episode_cover_art',
+    'publish_time',
+    'approved_by',
+    'updated_by',
+    'deleted_by'
+  ]
+  loop
+    execute format(
+      'create or replace function %I(autoworkflow) returns bytea language sql stable as '
+        '$key$ select convert_to(lower($1.%I::text) || chr(1) || $1.%I::text, %L) $key$',
+      column_name || '_sort_key',
+      column_name,
+      column_name,
+      'UTF8'
+    );
+  end loop;
+end $$;